@@ -35,6 +35,7 @@ export interface BacklogRepository {
     name: string;
     description: string;
     httpUrl: string;
+    sshUrl?: string;
 }
 
 export interface BacklogBranch {
@@ -62,6 +63,7 @@ export interface BacklogPullRequest {
 export interface BacklogFileEntry {
     name: string;
     type: 'blob' | 'tree';
+    sha?: string; // blob/tree のオブジェクトID（APIが返す場合のみ）
 }
 
 export interface BacklogFileContent {
@@ -151,6 +153,12 @@ export class BacklogClient {
         return this.request(`/projects/${enc(projectKey)}/git/repositories`);
     }
 
+    /** Gitリポジトリ情報 */
+    async getRepository(projectKeyOrId: string | number, repoIdOrName: string | number): Promise<BacklogRepository> {
+        const projectKey = await this.resolveProjectKey(projectKeyOrId);
+        return this.request(`/projects/${enc(projectKey)}/git/repositories/${enc(String(repoIdOrName))}`);
+    }
+
     /** リポジトリ名/IDを数値IDに解決 */
     private async resolveRepositoryId(
         projectKeyOrId: string | number,
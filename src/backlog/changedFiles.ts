@@ -0,0 +1,143 @@
+import * as vscode from 'vscode';
+import { BacklogClient, BacklogFileEntry } from './backlogClient';
+import { SkippedFile, isSourceFile } from '../git/diffAnalyzer';
+
+/**
+ * added/deleted/modified はツリー比較で確定した変更、
+ * unknown はハッシュが得られず内容比較で判定する必要があるもの
+ */
+export type ChangeKind = 'added' | 'deleted' | 'modified' | 'unknown';
+
+export interface ChangedFileCandidate {
+    path: string;
+    kind: ChangeKind;
+}
+
+export interface ChangedFileDetection {
+    candidates: ChangedFileCandidate[];
+    skippedFiles: SkippedFile[];
+}
+
+const MAX_TREE_DEPTH = 20;
+
+interface WalkContext {
+    client: BacklogClient;
+    projectKey: string;
+    repoId: number;
+    baseRefs: string[];
+    compareRefs: string[];
+    candidates: ChangedFileCandidate[];
+    skippedFiles: SkippedFile[];
+    onProgress?: (message: string) => void;
+}
+
+/**
+ * Backlog API のツリーを base / compare で並行に辿り、差分のあるファイルを検出する。
+ * エントリにオブジェクトIDがあれば一致するツリー・blobは辿らずに枝刈りする。
+ * ルートの一覧取得に失敗した場合は例外を投げる。
+ */
+export async function detectChangedFiles(
+    client: BacklogClient,
+    projectKey: string,
+    repoId: number,
+    baseRefs: string[],
+    compareRefs: string[],
+    onProgress?: (message: string) => void
+): Promise<ChangedFileDetection> {
+    const ctx: WalkContext = {
+        client, projectKey, repoId, baseRefs, compareRefs,
+        candidates: [],
+        skippedFiles: [],
+        onProgress,
+    };
+
+    const [baseRoot, compareRoot] = await Promise.all([
+        listEntriesWithFallback(ctx, baseRefs, ''),
+        listEntriesWithFallback(ctx, compareRefs, ''),
+    ]);
+
+    await walk(ctx, '', baseRoot, compareRoot, 0);
+
+    return { candidates: ctx.candidates, skippedFiles: ctx.skippedFiles };
+}
+
+async function walk(
+    ctx: WalkContext,
+    dirPath: string,
+    baseEntries: BacklogFileEntry[] | null,
+    compareEntries: BacklogFileEntry[] | null,
+    depth: number
+): Promise<void> {
+    const baseMap = new Map((baseEntries ?? []).map(e => [e.name, e]));
+    const compareMap = new Map((compareEntries ?? []).map(e => [e.name, e]));
+    const names = [...new Set([...baseMap.keys(), ...compareMap.keys()])].sort();
+
+    for (const name of names) {
+        const fullPath = dirPath ? `${dirPath}/${name}` : name;
+        const base = baseMap.get(name);
+        const compare = compareMap.get(name);
+
+        // 同一オブジェクトなら中身も同一
+        if (base?.sha && compare?.sha && base.sha === compare.sha && base.type === compare.type) {
+            continue;
+        }
+
+        const baseTree = base?.type === 'tree';
+        const compareTree = compare?.type === 'tree';
+        if (baseTree || compareTree) {
+            if (depth >= MAX_TREE_DEPTH) {
+                ctx.skippedFiles.push({ path: `${fullPath}/`, reason: vscode.l10n.t('The directory is nested too deeply (more than {0} levels)', MAX_TREE_DEPTH) });
+            } else {
+                ctx.onProgress?.(vscode.l10n.t('Detecting changed files: {0}', `${fullPath}/`));
+                try {
+                    const [baseSub, compareSub] = await Promise.all([
+                        baseTree ? listEntriesWithFallback(ctx, ctx.baseRefs, fullPath) : Promise.resolve(null),
+                        compareTree ? listEntriesWithFallback(ctx, ctx.compareRefs, fullPath) : Promise.resolve(null),
+                    ]);
+                    await walk(ctx, fullPath, baseSub, compareSub, depth + 1);
+                } catch (e) {
+                    const msg = e instanceof Error ? e.message : String(e);
+                    ctx.skippedFiles.push({ path: `${fullPath}/`, reason: vscode.l10n.t('Failed to list the directory: {0}', msg.slice(0, 200)) });
+                }
+            }
+        }
+
+        const baseBlob = base?.type === 'blob' ? base : undefined;
+        const compareBlob = compare?.type === 'blob' ? compare : undefined;
+        if (!baseBlob && !compareBlob) { continue; }
+
+        let kind: ChangeKind;
+        if (!baseBlob) {
+            kind = 'added';
+        } else if (!compareBlob) {
+            kind = 'deleted';
+        } else if (baseBlob.sha && compareBlob.sha) {
+            kind = 'modified';
+        } else {
+            kind = 'unknown';
+        }
+
+        if (isSourceFile(fullPath)) {
+            ctx.candidates.push({ path: fullPath, kind });
+        } else if (kind !== 'unknown') {
+            // 変更が確定しているものだけ対象外として記録する
+            ctx.skippedFiles.push({ path: fullPath, reason: vscode.l10n.t('Not a source code file extension') });
+        }
+    }
+}
+
+async function listEntriesWithFallback(
+    ctx: WalkContext,
+    refs: string[],
+    dirPath: string
+): Promise<BacklogFileEntry[]> {
+    let lastError: string | null = null;
+    for (const ref of refs) {
+        try {
+            return await ctx.client.listFiles(ctx.projectKey, ctx.repoId, ref, dirPath);
+        } catch (e) {
+            lastError = e instanceof Error ? e.message : String(e);
+        }
+    }
+    throw new Error(`listFiles failed for refs=[${refs.join(', ')}]: ${lastError ?? 'no ref candidates'}`);
+}
@@ -1,12 +1,44 @@
 import * as vscode from 'vscode';
+import { ReviewMode } from './review/chunkedReviewer';
+import { DefinitionMode } from './review/definitionTracker';
+import { ModelProviderId } from './review/modelProvider';
+import { OutputLanguage, ResponseFormat } from './review/promptBuilder';
+import { ReviewPresetId } from './review/reviewPresets';
+import { VerificationMode } from './review/findingVerifier';
+
+/** ローカルGitで差分を取る前の参照の更新方法（fetch: リモート追跡ブランチのみ更新 / none: 更新しない） */
+export type LocalGitSyncMode = 'fetch' | 'none';
+
+/** レビュー結果の出力言語の設定（auto: VS Code の表示言語に合わせる） */
+export type OutputLanguageSetting = 'auto' | OutputLanguage;
 
 export interface BacklogConfig {
     spaceKey: string;
     apiKey: string;
     domain: string;
+    modelProvider: ModelProviderId;
+    /** vscode.lm のモデルのベンダー（例: copilot） */
+    lmVendor: string;
+    /** vscode.lm のモデルのファミリー */
     copilotModel: string;
+    openAiBaseUrl: string;
+    openAiModel: string;
+    openAiMaxInputTokens: number;
+    reviewPreset: ReviewPresetId;
+    outputLanguage: OutputLanguage;
+    responseFormat: ResponseFormat;
+    verificationMode: VerificationMode;
     definitionDepth: number;
+    definitionMode: DefinitionMode;
+    definitionConcurrency: number;
+    definitionTimeoutMs: number;
+    impactMaxReferences: number;
     maxCharsPerFile: number;
+    excerptContextLines: number;
+    reviewMode: ReviewMode;
+    agentMode: boolean;
+    agentMaxSteps: number;
+    localGitSync: LocalGitSyncMode;
 }
 
 export function getConfig(): BacklogConfig {
@@ -15,19 +47,42 @@ export function getConfig(): BacklogConfig {
         spaceKey: cfg.get<string>('spaceKey', ''),
         apiKey: cfg.get<string>('apiKey', ''),
         domain: cfg.get<string>('domain', 'backlog.jp'),
+        modelProvider: cfg.get<ModelProviderId>('modelProvider', 'vscode-lm'),
+        lmVendor: cfg.get<string>('lmVendor', 'copilot'),
         copilotModel: cfg.get<string>('copilotModel', 'gpt-4o'),
+        openAiBaseUrl: cfg.get<string>('openAiBaseUrl', 'http://localhost:11434/v1'),
+        openAiModel: cfg.get<string>('openAiModel', ''),
+        openAiMaxInputTokens: cfg.get<number>('openAiMaxInputTokens', 32768),
+        reviewPreset: cfg.get<ReviewPresetId>('reviewPreset', 'standard'),
+        outputLanguage: resolveOutputLanguage(cfg.get<OutputLanguageSetting>('outputLanguage', 'ja')),
+        responseFormat: cfg.get<ResponseFormat>('responseFormat', 'markdown'),
+        verificationMode: cfg.get<VerificationMode>('verificationMode', 'location'),
         definitionDepth: cfg.get<number>('definitionDepth', 2),
+        definitionMode: cfg.get<DefinitionMode>('definitionMode', 'full'),
+        definitionConcurrency: cfg.get<number>('definitionConcurrency', 4),
+        definitionTimeoutMs: cfg.get<number>('definitionTimeoutMs', 5000),
+        impactMaxReferences: cfg.get<number>('impactMaxReferences', 20),
         maxCharsPerFile: cfg.get<number>('maxCharsPerFile', 20000),
+        excerptContextLines: cfg.get<number>('excerptContextLines', 15),
+        reviewMode: cfg.get<ReviewMode>('reviewMode', 'auto'),
+        agentMode: cfg.get<boolean>('agentMode', false),
+        agentMaxSteps: cfg.get<number>('agentMaxSteps', 10),
+        localGitSync: cfg.get<LocalGitSyncMode>('localGitSync', 'fetch'),
     };
 }
 
+function resolveOutputLanguage(setting: OutputLanguageSetting): OutputLanguage {
+    if (setting !== 'auto') { return setting; }
+    return vscode.env.language.startsWith('ja') ? 'ja' : 'en';
+}
+
 export async function promptForConfig(context: vscode.ExtensionContext): Promise<boolean> {
     const cfg = getConfig();
 
     if (!cfg.spaceKey) {
         const spaceKey = await vscode.window.showInputBox({
-            title: 'Backlog スペースキーを入力',
-            prompt: '例: mycompany (mycompany.backlog.jp の場合は "mycompany" のみ入力)',
+            title: vscode.l10n.t('Enter Backlog space key'),
+            prompt: vscode.l10n.t('e.g. mycompany (enter only "mycompany" for mycompany.backlog.jp)'),
             ignoreFocusOut: true,
         });
         if (!spaceKey) { return false; }
@@ -36,8 +91,8 @@ export async function promptForConfig(context: vscode.ExtensionContext): Promise
 
     if (!cfg.apiKey) {
         const apiKey = await vscode.window.showInputBox({
-            title: 'Backlog APIキーを入力',
-            prompt: 'Backlog プロフィール > API > APIキーの発行 から取得',
+            title: vscode.l10n.t('Enter Backlog API key'),
+            prompt: vscode.l10n.t('Issue one from Backlog Personal Settings > API > Register new API key'),
             password: true,
             ignoreFocusOut: true,
         });
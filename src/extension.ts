@@ -1,18 +1,51 @@
-import * as vscode from 'vscode';
-import { execFile } from 'child_process';
 import * as path from 'path';
-import { promisify } from 'util';
+import * as vscode from 'vscode';
 import { BacklogClient, BacklogIssue, BacklogPullRequest, BacklogRepository } from './backlog/backlogClient';
-import { generateUnifiedDiff, parseDiff, getChangedLineNumbers } from './git/diffAnalyzer';
+import { FileDiff, FileDiffResult, SkippedFile, generateUnifiedDiff, parseDiff, getChangedLineNumbers, getFileDiffPath, isSourceFile } from './git/diffAnalyzer';
+import { ChangedFileCandidate, ChangedFileDetection, detectChangedFiles } from './backlog/changedFiles';
+import {
+    TemporaryWorktree,
+    collectGitFileDiffs,
+    createTemporaryWorktree,
+    fetchRemoteRefs,
+    findMergeBase,
+    getGitFileContent,
+    normalizeGitFilePath,
+    parseGitNameOnlyOutput,
+    resolveGitRepoRoot,
+    resolveLocalGitRef,
+    runGit,
+} from './git/localGit';
+import { rememberWorkspaceRepository, resolveWorkspaceRepository } from './git/repositoryMapping';
+import {
+    GitCommitSummary,
+    LocalChangeSpec,
+    describeLocalChange,
+    generateFileDiffsFromLocalChanges,
+    listRecentCommits,
+} from './git/localChanges';
 import { gatherDefinitionsForChangedLines } from './review/definitionTracker';
-import { buildReviewPrompt, ReviewInput } from './review/promptBuilder';
-import { runAiReview } from './review/aiReviewer';
+import { ImpactContext, gatherImpactForChangedSymbols } from './review/impactAnalyzer';
+import { ProviderExecutor, mapWithConcurrency } from './review/providerExecutor';
+import { createPromptTemplateFile, loadPromptTemplates } from './review/promptTemplate';
+import { ReviewInput } from './review/promptBuilder';
+import { REVIEW_PRESETS, ReviewPreset, getReviewPreset } from './review/reviewPresets';
+import { ReviewFinding, formatStructuredReviewAsMarkdown, parseMarkdownFindings } from './review/reviewFindings';
+import { RejectedFinding, verifyMarkdownReview, verifyStructuredReview } from './review/findingVerifier';
+import { ReviewConversation } from './review/reviewConversation';
+import { packReviewPrompt } from './review/promptPacker';
+import { ReviewResult, runWithModel } from './review/aiReviewer';
+import { AgentToolCall, runAgentReview } from './review/agentReviewer';
+import { openAgentSession, registerReviewTools } from './review/agentTools';
+import { ModelProviderId, OPENAI_API_KEY_SECRET, selectReviewModel } from './review/modelProvider';
+import { listOpenAiCompatibleModels } from './review/openAiCompatibleModel';
+import { needsChunkedReview, runChunkedReview } from './review/chunkedReviewer';
 import { ReviewPanel } from './ui/reviewPanel';
+import { ReviewDiagnostics } from './ui/reviewDiagnostics';
+import { ReviewThreads } from './ui/reviewThreads';
+import { previewSuggestedFix, registerSuggestedFixPreview } from './ui/suggestedFixes';
 import { BacklogSidebarProvider, BacklogTreeItem } from './ui/sidebarProvider';
-import { getConfig, promptForConfig } from './config';
-
-const execFileAsync = promisify(execFile);
-let cachedLocalRepoPath: string | undefined;
+import { LocalGitSyncMode, getConfig, promptForConfig } from './config';
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('Backlog AI Reviewer: activating...');
@@ -23,6 +56,39 @@ export function activate(context: vscode.ExtensionContext) {
         showCollapseAll: true,
     });
     context.subscriptions.push(treeView);
+    context.subscriptions.push(...registerReviewTools());
+
+    const reviewDiagnostics = new ReviewDiagnostics(context.extensionUri);
+    const reviewThreads = new ReviewThreads();
+    context.subscriptions.push(reviewDiagnostics, reviewThreads);
+
+    // ── コマンド: 指摘のコメントスレッドの操作（スレッドのメニューから呼ばれる） ────────
+    context.subscriptions.push(
+        vscode.commands.registerCommand('backlogReview.replyFinding', async (reply: vscode.CommentReply) => {
+            await reviewThreads.reply(reply);
+        }),
+        vscode.commands.registerCommand('backlogReview.resolveFinding', (thread: vscode.CommentThread) => {
+            reviewThreads.setState(thread, 'resolved');
+        }),
+        vscode.commands.registerCommand('backlogReview.markFindingFalsePositive', (thread: vscode.CommentThread) => {
+            reviewThreads.setState(thread, 'falsePositive');
+        }),
+        vscode.commands.registerCommand('backlogReview.reopenFinding', (thread: vscode.CommentThread) => {
+            reviewThreads.setState(thread, 'open');
+        })
+    );
+
+    // ── コマンド: 指摘の修正案を差分で確認して適用（クイックフィックスから呼ばれる） ────────
+    context.subscriptions.push(
+        registerSuggestedFixPreview(),
+        vscode.commands.registerCommand(
+            'backlogReview.previewSuggestedFix',
+            async (finding: ReviewFinding, uri: vscode.Uri, reviewedContent: string | undefined) => {
+                await previewSuggestedFix(finding, uri, reviewedContent);
+            }
+        )
+    );
+    context.subscriptions.push(registerChatParticipant(context, sidebarProvider));
 
     context.subscriptions.push(
         vscode.commands.registerCommand('backlogReview.configure', async () => {
@@ -59,7 +125,7 @@ export function activate(context: vscode.ExtensionContext) {
                     }
 
                     if (!pr || !pr.base || !pr.branch) {
-                        vscode.window.showErrorMessage('プルリクエストからブランチ情報を取得できませんでした。');
+                        vscode.window.showErrorMessage(vscode.l10n.t('Could not get branch information from the pull request.'));
                         return;
                     }
 
@@ -74,7 +140,15 @@ export function activate(context: vscode.ExtensionContext) {
                         } catch { /* ignore */ }
                     }
 
-                    await executeReview(context, cfg, treeItem.projectKey, pr.repositoryId, pr, issue, issueComments, pr.base, pr.branch);
+                    await executeReview(
+                        context,
+                        reviewDiagnostics,
+                        reviewThreads,
+                        cfg,
+                        createBranchReviewTarget(context, cfg, treeItem.projectKey, pr.repositoryId, pr, issue, pr.base, pr.branch),
+                        issue,
+                        issueComments
+                    );
                     return;
                 }
 
@@ -84,23 +158,23 @@ export function activate(context: vscode.ExtensionContext) {
                     const repoId = sidebarProvider.state.repository?.id;
 
                     if (!projectKey || !repoId) {
-                        vscode.window.showErrorMessage('プロジェクトまたはリポジトリが選択されていません。サイドバーから選択してください。');
+                        vscode.window.showErrorMessage(vscode.l10n.t('No project or repository is selected. Select one from the sidebar.'));
                         return;
                     }
 
+                    const issue = sidebarProvider.state.issue?.issue || null;
+                    const { baseBranch, compareBranch } = sidebarProvider.state.branches;
                     await executeReview(
                         context,
+                        reviewDiagnostics,
+                        reviewThreads,
                         cfg,
-                        projectKey,
-                        repoId,
-                        undefined,
-                        sidebarProvider.state.issue?.issue || null,
-                        sidebarProvider.state.issue?.comments || [],
-                        sidebarProvider.state.branches.baseBranch,
-                        sidebarProvider.state.branches.compareBranch
+                        createBranchReviewTarget(context, cfg, projectKey, repoId, undefined, issue, baseBranch, compareBranch),
+                        issue,
+                        sidebarProvider.state.issue?.comments || []
                     );
                 } else {
-                    vscode.window.showErrorMessage('レビュー対象のブランチが設定されていません。サイドバーの「ブランチを選択」から設定してください。');
+                    vscode.window.showErrorMessage(vscode.l10n.t('No branches to review are set. Set them from "Select branches" in the sidebar.'));
                 }
             }
         )
@@ -128,22 +202,71 @@ export function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    // ── コマンド: ローカルの変更をレビュー（PRなしのセルフレビュー） ────────
+    const localReviewCommands: [string, LocalChangeKind | undefined][] = [
+        ['backlogReview.startLocalReview', undefined],
+        ['backlogReview.reviewWorkingTree', 'workingTree'],
+        ['backlogReview.reviewStaged', 'staged'],
+        ['backlogReview.reviewCommit', 'commit'],
+        ['backlogReview.reviewCommitRange', 'range'],
+    ];
+    for (const [commandId, kind] of localReviewCommands) {
+        context.subscriptions.push(
+            vscode.commands.registerCommand(commandId, async () => {
+                await startLocalReviewFlow(context, sidebarProvider, reviewDiagnostics, reviewThreads, kind);
+            })
+        );
+    }
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('backlogReview.createPromptTemplate', async () => {
+            const repoRoot = await pickWorkspaceRepository();
+            if (!repoRoot) { return; }
+
+            const kindPick = await vscode.window.showQuickPick(
+                [
+                    { label: vscode.l10n.t('Review prompt'), description: '.backlog-review/prompt.md', templateKind: 'review' as const },
+                    { label: vscode.l10n.t('Aggregation prompt for chunked reviews'), description: '.backlog-review/aggregate.md', templateKind: 'aggregation' as const },
+                ],
+                { title: vscode.l10n.t('Select the prompt template to create'), ignoreFocusOut: true }
+            );
+            if (!kindPick) { return; }
+
+            const uri = await createPromptTemplateFile(vscode.Uri.file(repoRoot), kindPick.templateKind);
+            await vscode.window.showTextDocument(uri);
+        })
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand('backlogReview.clearSelection', () => {
             sidebarProvider.state = {};
             sidebarProvider.refresh();
-            vscode.window.showInformationMessage('選択状態をクリアしました。');
+            vscode.window.showInformationMessage(vscode.l10n.t('Selection cleared.'));
         })
     );
 
     context.subscriptions.push(
         vscode.commands.registerCommand('backlogReview.selectModel', async () => {
-            await selectCopilotModel();
+            await selectModel(context.secrets);
+            sidebarProvider.refresh();
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('backlogReview.setOpenAiApiKey', async () => {
+            await setOpenAiApiKey(context.secrets);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('backlogReview.selectPreset', async () => {
+            await selectReviewPreset();
+            sidebarProvider.refresh();
         })
     );
 
     context.subscriptions.push(
-        vscode.commands.registerCommand('backlogReview.postComment', async (args: { issueKey: string; content: string; panel: any }) => {
+        vscode.commands.registerCommand('backlogReview.postComment', async (args: { issueKey: string; content: string; panel?: any }) => {
             const cfg = getConfig();
             const client = new BacklogClient(cfg.spaceKey, cfg.apiKey, cfg.domain);
             try {
@@ -157,14 +280,14 @@ export function activate(context: vscode.ExtensionContext) {
                 if (args.panel && typeof args.panel.postResult === 'function') {
                     args.panel.postResult(true);
                 } else {
-                    vscode.window.showInformationMessage(`課題 ${args.issueKey} にコメントを投稿しました。`);
+                    vscode.window.showInformationMessage(vscode.l10n.t('Posted a comment on issue {0}.', args.issueKey));
                 }
             } catch (err) {
                 const msg = err instanceof Error ? err.message : String(err);
                 if (args.panel && typeof args.panel.postResult === 'function') {
                     args.panel.postResult(false, msg);
                 } else {
-                    vscode.window.showErrorMessage(`コメント投稿失敗: ${msg}`);
+                    vscode.window.showErrorMessage(vscode.l10n.t('Failed to post comment: {0}', msg));
                 }
             }
         })
@@ -181,16 +304,16 @@ async function startIssueSelectionFlow(
     let projects: { id: number; projectKey: string; name: string }[];
     try {
         projects = await vscode.window.withProgress(
-            { location: vscode.ProgressLocation.Notification, title: 'Backlog: プロジェクト一覧を取得中...' },
+            { location: vscode.ProgressLocation.Notification, title: vscode.l10n.t('Backlog: Loading projects...') },
             () => client.listProjects()
         );
     } catch (e) {
-        vscode.window.showErrorMessage(`プロジェクト取得失敗: ${e}`); return;
+        vscode.window.showErrorMessage(vscode.l10n.t('Failed to load projects: {0}', String(e))); return;
     }
 
     const projectPick = await vscode.window.showQuickPick(
         projects.map(p => ({ label: p.name, description: p.projectKey, project: p })),
-        { title: 'プロジェクトを選択', ignoreFocusOut: true }
+        { title: vscode.l10n.t('Select a project'), ignoreFocusOut: true }
     );
     if (!projectPick) { return; }
     const project = projectPick.project;
@@ -203,7 +326,7 @@ async function startIssueSelectionFlow(
         issue: result
     });
 
-    vscode.window.showInformationMessage(`課題 「${result.issue.issueKey}」 を選択しました。`);
+    vscode.window.showInformationMessage(vscode.l10n.t('Selected issue "{0}".', result.issue.issueKey));
 }
 
 // ─── ブランチ選択フロー ──────────────────────────────────
@@ -216,16 +339,16 @@ async function startBranchSelectionFlow(
     let projects: { id: number; projectKey: string; name: string }[];
     try {
         projects = await vscode.window.withProgress(
-            { location: vscode.ProgressLocation.Notification, title: 'Backlog: プロジェクト一覧を取得中...' },
+            { location: vscode.ProgressLocation.Notification, title: vscode.l10n.t('Backlog: Loading projects...') },
             () => client.listProjects()
         );
     } catch (e) {
-        vscode.window.showErrorMessage(`プロジェクト取得失敗: ${e}`); return;
+        vscode.window.showErrorMessage(vscode.l10n.t('Failed to load projects: {0}', String(e))); return;
     }
 
     const projectPick = await vscode.window.showQuickPick(
         projects.map(p => ({ label: p.name, description: p.projectKey, project: p })),
-        { title: 'プロジェクトを選択', ignoreFocusOut: true }
+        { title: vscode.l10n.t('Select a project'), ignoreFocusOut: true }
     );
     if (!projectPick) { return; }
     const project = projectPick.project;
@@ -233,16 +356,16 @@ async function startBranchSelectionFlow(
     let repos: BacklogRepository[];
     try {
         repos = await vscode.window.withProgress(
-            { location: vscode.ProgressLocation.Notification, title: 'Backlog: リポジトリ一覧を取得中...' },
+            { location: vscode.ProgressLocation.Notification, title: vscode.l10n.t('Backlog: Loading repositories...') },
             () => client.listRepositories(project.projectKey)
         );
     } catch (e) {
-        vscode.window.showErrorMessage(`リポジトリ取得失敗: ${e}`); return;
+        vscode.window.showErrorMessage(vscode.l10n.t('Failed to load repositories: {0}', String(e))); return;
     }
 
     const repoPick = await vscode.window.showQuickPick(
         repos.map(r => ({ label: r.name, description: r.description, repo: r })),
-        { title: 'リポジトリを選択', ignoreFocusOut: true }
+        { title: vscode.l10n.t('Select a repository'), ignoreFocusOut: true }
     );
     if (!repoPick) { return; }
     const repo = repoPick.repo;
@@ -256,23 +379,23 @@ async function startBranchSelectionFlow(
         branches: branchPair
     });
 
-    vscode.window.showInformationMessage(`ブランチ 「${branchPair.baseBranch} ← ${branchPair.compareBranch}」 を指定しました。AIレビューを開始します...`);
+    vscode.window.showInformationMessage(vscode.l10n.t('Selected branches "{0} ← {1}". Starting the AI review...', branchPair.baseBranch, branchPair.compareBranch));
     vscode.commands.executeCommand('backlogReview.startReview');
 }
 
 async function promptBranchPairManually(): Promise<{ baseBranch: string; compareBranch: string } | null> {
     const baseBranch = await vscode.window.showInputBox({
-        title: 'マージ先（ベース）ブランチを入力',
-        prompt: '例: main',
+        title: vscode.l10n.t('Enter the target (base) branch'),
+        prompt: vscode.l10n.t('e.g. main'),
         ignoreFocusOut: true,
     });
     if (!baseBranch) { return null; }
 
     const compareBranch = await vscode.window.showInputBox({
-        title: '比較（フィーチャー）ブランチを入力',
-        prompt: '例: feature/xxx',
+        title: vscode.l10n.t('Enter the compare (feature) branch'),
+        prompt: vscode.l10n.t('e.g. feature/xxx'),
         ignoreFocusOut: true,
-        validateInput: (v) => (v === baseBranch ? 'ベースブランチと同じ名前は指定できません' : null),
+        validateInput: (v) => (v === baseBranch ? vscode.l10n.t('Cannot be the same as the base branch') : null),
     });
     if (!compareBranch) { return null; }
 
@@ -286,12 +409,12 @@ async function selectBranchPair(
 ): Promise<{ baseBranch: string; compareBranch: string } | null> {
     try {
         const branches = await vscode.window.withProgress(
-            { location: vscode.ProgressLocation.Notification, title: 'Backlog: ブランチ一覧を取得中...' },
+            { location: vscode.ProgressLocation.Notification, title: vscode.l10n.t('Backlog: Loading branches...') },
             () => client.listBranches(projectIdOrKey, repoIdOrName)
         );
 
         if (!branches || branches.length === 0) {
-            vscode.window.showWarningMessage('ブランチ一覧が空のため、手入力で指定してください。');
+            vscode.window.showWarningMessage(vscode.l10n.t('The branch list is empty. Enter the branches manually.'));
             return promptBranchPairManually();
         }
 
@@ -301,33 +424,174 @@ async function selectBranchPair(
         }));
 
         const basePick = await vscode.window.showQuickPick(branchItems, {
-            title: 'マージ先（ベース）ブランチを選択',
+            title: vscode.l10n.t('Select the target (base) branch'),
             ignoreFocusOut: true,
         });
         if (!basePick) { return null; }
 
         const comparePick = await vscode.window.showQuickPick(
             branchItems.filter(b => b.label !== basePick.label),
-            { title: '比較（フィーチャー）ブランチを選択', ignoreFocusOut: true }
+            { title: vscode.l10n.t('Select the compare (feature) branch'), ignoreFocusOut: true }
         );
         if (!comparePick) { return null; }
 
         return { baseBranch: basePick.label, compareBranch: comparePick.label };
     } catch (e) {
         const msg = e instanceof Error ? e.message : String(e);
-        vscode.window.showWarningMessage(`ブランチ一覧の取得に失敗したため、手入力に切り替えます: ${msg}`);
+        vscode.window.showWarningMessage(vscode.l10n.t('Failed to load branches, switching to manual input: {0}', msg));
         return promptBranchPairManually();
     }
 }
 
+// ─── ローカル変更レビューフロー ──────────────────────────────────
+type LocalChangeKind = LocalChangeSpec['kind'];
+
+async function startLocalReviewFlow(
+    context: vscode.ExtensionContext,
+    sidebarProvider: BacklogSidebarProvider,
+    diagnostics: ReviewDiagnostics,
+    threads: ReviewThreads,
+    kind?: LocalChangeKind
+) {
+    const repoRoot = await pickWorkspaceRepository();
+    if (!repoRoot) { return; }
+
+    if (!kind) {
+        const kindPick = await vscode.window.showQuickPick(
+            [
+                { label: vscode.l10n.t('$(edit) Uncommitted changes'), description: vscode.l10n.t('HEAD ← working tree (including untracked files)'), changeKind: 'workingTree' as const },
+                { label: vscode.l10n.t('$(diff-added) Staged changes'), description: vscode.l10n.t('HEAD ← index'), changeKind: 'staged' as const },
+                { label: vscode.l10n.t('$(git-commit) Select a commit'), description: vscode.l10n.t('Changes in a single commit'), changeKind: 'commit' as const },
+                { label: vscode.l10n.t('$(git-compare) Select a commit range'), description: vscode.l10n.t('Changes across several commits'), changeKind: 'range' as const },
+            ],
+            { title: vscode.l10n.t('Select the local changes to review'), ignoreFocusOut: true }
+        );
+        if (!kindPick) { return; }
+        kind = kindPick.changeKind;
+    }
+
+    const spec = await selectLocalChangeSpec(repoRoot, kind);
+    if (!spec) { return; }
+
+    const cfg = getConfig();
+    const { baseLabel, compareLabel } = describeLocalChange(spec);
+    const issue = sidebarProvider.state.issue?.issue || null;
+    const repoName = path.basename(repoRoot);
+
+    await executeReview(
+        context,
+        diagnostics,
+        threads,
+        cfg,
+        {
+            title: issue ? `[${issue.issueKey}] ${issue.summary}` : `${repoName}: ${compareLabel} → ${baseLabel}`,
+            prNumber: 0,
+            projectKey: vscode.l10n.t('Local'),
+            repoName,
+            baseBranch: baseLabel,
+            compareBranch: compareLabel,
+            emptyDiffMessage:
+                vscode.l10n.t('No changes to review were found.\n\nrepo: {0}\nbase: {1}\ncompare: {2}\n\nCheck that the changes include source code.', repoRoot, baseLabel, compareLabel),
+            loadDiffs: progress => {
+                progress.report({ message: vscode.l10n.t('Loading local changes: {0} ← {1}', baseLabel, compareLabel) });
+                return generateFileDiffsFromLocalChanges(repoRoot, spec);
+            },
+        },
+        issue,
+        sidebarProvider.state.issue?.comments || []
+    );
+}
+
+/** アクティブなエディタのフォルダ、またはワークスペースフォルダから選んだGitリポジトリのルートを返す */
+async function pickWorkspaceRepository(): Promise<string | null> {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    if (folders.length === 0) {
+        vscode.window.showErrorMessage(vscode.l10n.t('No workspace folder is open. Open a Git repository and try again.'));
+        return null;
+    }
+
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    let folder = activeUri ? vscode.workspace.getWorkspaceFolder(activeUri) : undefined;
+    if (!folder && folders.length === 1) {
+        folder = folders[0];
+    }
+    if (!folder) {
+        const pick = await vscode.window.showQuickPick(
+            folders.map(f => ({ label: f.name, description: f.uri.fsPath, folder: f })),
+            { title: vscode.l10n.t('Select the repository to review'), ignoreFocusOut: true }
+        );
+        if (!pick) { return null; }
+        folder = pick.folder;
+    }
+
+    try {
+        return await resolveGitRepoRoot(folder.uri.fsPath);
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        vscode.window.showErrorMessage(vscode.l10n.t('Could not find a Git repository in {0}: {1}', folder.name, msg));
+        return null;
+    }
+}
+
+async function selectLocalChangeSpec(repoRoot: string, kind: LocalChangeKind): Promise<LocalChangeSpec | null> {
+    if (kind === 'workingTree' || kind === 'staged') {
+        return { kind };
+    }
+
+    let commits: GitCommitSummary[];
+    try {
+        commits = await listRecentCommits(repoRoot);
+    } catch (e) {
+        vscode.window.showErrorMessage(vscode.l10n.t('Failed to load commits: {0}', e instanceof Error ? e.message : String(e)));
+        return null;
+    }
+    if (commits.length === 0) {
+        vscode.window.showWarningMessage(vscode.l10n.t('There are no commits.'));
+        return null;
+    }
+
+    const commitItems = commits.map((c, index) => ({
+        label: `${c.sha.slice(0, 8)} ${c.subject}`,
+        description: `${c.author} ${c.date}`,
+        sha: c.sha,
+        index,
+    }));
+
+    if (kind === 'commit') {
+        const pick = await vscode.window.showQuickPick(commitItems, {
+            title: vscode.l10n.t('Select the commit to review'),
+            matchOnDescription: true,
+            ignoreFocusOut: true,
+        });
+        return pick ? { kind: 'commit', commit: pick.sha } : null;
+    }
+
+    // git log は新しい順なので、古い側（範囲の始点）→ 新しい側（終点）の順に選ぶ
+    const fromPick = await vscode.window.showQuickPick(commitItems, {
+        title: vscode.l10n.t('Select the start of the commit range (the oldest commit, inclusive)'),
+        matchOnDescription: true,
+        ignoreFocusOut: true,
+    });
+    if (!fromPick) { return null; }
+
+    const toPick = await vscode.window.showQuickPick(commitItems.slice(0, fromPick.index + 1), {
+        title: vscode.l10n.t('Select the end of the commit range (the newest commit)'),
+        matchOnDescription: true,
+        ignoreFocusOut: true,
+    });
+    if (!toPick) { return null; }
+
+    return { kind: 'range', from: fromPick.sha, to: toPick.sha };
+}
+
 // ─── 課題検索ヘルパー ────────────────────────────────────────────
 async function searchAndSelectIssue(
     client: BacklogClient,
     projectId: number
 ): Promise<{ issue: BacklogIssue; comments: import('./backlog/backlogClient').BacklogIssueComment[] } | null> {
     const keyword = await vscode.window.showInputBox({
-        title: '課題を検索',
-        prompt: 'キーワードまたは課題キー (例: PROJ-123 または "決済処理")',
+        title: vscode.l10n.t('Search issues'),
+        prompt: vscode.l10n.t('Keyword or issue key (e.g. PROJ-123 or "payment")'),
         ignoreFocusOut: true,
     });
     const normalizedKeyword = (keyword ?? '').replace(/\u3000/g, ' ').trim();
@@ -339,7 +603,7 @@ async function searchAndSelectIssue(
             issues = [await client.getIssue(normalizedKeyword)];
         } else {
             issues = await vscode.window.withProgress(
-                { location: vscode.ProgressLocation.Notification, title: `"${normalizedKeyword}" を検索中...` },
+                { location: vscode.ProgressLocation.Notification, title: vscode.l10n.t('Searching for "{0}"...', normalizedKeyword) },
                 () => client.searchIssues(projectId, normalizedKeyword)
             );
 
@@ -350,12 +614,12 @@ async function searchAndSelectIssue(
             }
         }
     } catch (e) {
-        vscode.window.showErrorMessage(`課題検索失敗: ${e}`);
+        vscode.window.showErrorMessage(vscode.l10n.t('Failed to search issues: {0}', String(e)));
         return null;
     }
 
     if (issues.length === 0) {
-        vscode.window.showInformationMessage(`"${normalizedKeyword}" に一致する課題が見つかりません`);
+        vscode.window.showInformationMessage(vscode.l10n.t('No issues match "{0}"', normalizedKeyword));
         return null;
     }
 
@@ -384,7 +648,7 @@ async function searchAndSelectIssue(
         if (filtered.length > 0) {
             issues = filtered;
         } else {
-            vscode.window.showInformationMessage(`"${normalizedKeyword}" に一致する課題が見つかりません`);
+            vscode.window.showInformationMessage(vscode.l10n.t('No issues match "{0}"', normalizedKeyword));
             return null;
         }
     }
@@ -399,7 +663,7 @@ async function searchAndSelectIssue(
                 description: i.status.name,
                 issue: i,
             })),
-            { title: '課題を選択', ignoreFocusOut: true }
+            { title: vscode.l10n.t('Select an issue'), ignoreFocusOut: true }
         );
         if (!pick) { return null; }
         selectedIssue = pick.issue;
@@ -430,94 +694,458 @@ function scoreIssue(issue: BacklogIssue, tokens: string[]): number {
     return score;
 }
 
-// ─── 動的Copilotモデル選択 ──────────────────────────────────────
-async function selectCopilotModel(): Promise<void> {
-    const models = await vscode.lm.selectChatModels({ vendor: 'copilot' });
-    if (!models || models.length === 0) {
-        vscode.window.showErrorMessage('GitHub Copilotのモデルが取得できません。Copilot拡張機能が有効か確認してください。');
-        return;
-    }
+// ─── AIモデル選択 ───────────────────────────────────────────
+type ModelPickItem = vscode.QuickPickItem & {
+    provider?: ModelProviderId;
+    model?: vscode.LanguageModelChat;
+};
+
+async function selectModel(secrets: vscode.SecretStorage): Promise<void> {
+    const cfg = getConfig();
+    const models = await vscode.lm.selectChatModels();
 
-    const pick = await vscode.window.showQuickPick(
-        models.map(m => ({
+    const items: ModelPickItem[] = [
+        { label: vscode.l10n.t('VS Code language models'), kind: vscode.QuickPickItemKind.Separator },
+        ...models.map(m => ({
             label: m.name,
-            description: `family: ${m.family} | max: ${m.maxInputTokens.toLocaleString()} tokens`,
-            id: m.family,
+            description: `${m.vendor} | family: ${m.family} | max: ${m.maxInputTokens.toLocaleString()} tokens`,
+            provider: 'vscode-lm' as const,
+            model: m,
         })),
-        { title: 'GitHub Copilot モデルを選択', ignoreFocusOut: true }
-    );
+        { label: vscode.l10n.t('Other providers'), kind: vscode.QuickPickItemKind.Separator },
+        {
+            label: `$(server) ${vscode.l10n.t('OpenAI-compatible endpoint...')}`,
+            description: vscode.l10n.t('Ollama, vLLM and other local or on-premises models'),
+            detail: cfg.modelProvider === 'openai-compatible' && cfg.openAiModel ? `${cfg.openAiModel} @ ${cfg.openAiBaseUrl}` : undefined,
+            provider: 'openai-compatible',
+        },
+        {
+            label: `$(beaker) ${vscode.l10n.t('Stub')}`,
+            description: vscode.l10n.t('Returns a fixed response without calling a model (for offline testing)'),
+            provider: 'stub',
+        },
+    ];
+    if (models.length === 0) {
+        items.splice(1, 0, {
+            label: vscode.l10n.t('No language models are available'),
+            description: vscode.l10n.t('Check that GitHub Copilot or another model provider extension is enabled.'),
+        });
+    }
 
-    if (!pick) { return; }
-    await vscode.workspace.getConfiguration('backlogReview').update('copilotModel', pick.id, true);
-    vscode.window.showInformationMessage(`モデルを "${pick.label}" に設定しました`);
+    const pick = await vscode.window.showQuickPick(items, { title: vscode.l10n.t('Select an AI model'), ignoreFocusOut: true });
+    if (!pick?.provider) { return; }
+
+    const config = vscode.workspace.getConfiguration('backlogReview');
+    let modelName = vscode.l10n.t('Stub');
+    if (pick.model) {
+        await config.update('lmVendor', pick.model.vendor, true);
+        await config.update('copilotModel', pick.model.family, true);
+        modelName = pick.model.name;
+    } else if (pick.provider === 'openai-compatible') {
+        const modelId = await configureOpenAiCompatibleModel(secrets, cfg.openAiBaseUrl, cfg.openAiModel);
+        if (!modelId) { return; }
+        modelName = modelId;
+    }
+    await config.update('modelProvider', pick.provider, true);
+    vscode.window.showInformationMessage(vscode.l10n.t('Model set to "{0}"', modelName));
+}
+
+/**
+ * OpenAI 互換エンドポイントのベース URL・API キー・モデルを順に入力させて設定に保存する。
+ * モデルはエンドポイントの一覧から選ばせ、一覧を取得できなければ手入力させる
+ */
+async function configureOpenAiCompatibleModel(
+    secrets: vscode.SecretStorage,
+    currentBaseUrl: string,
+    currentModel: string
+): Promise<string | undefined> {
+    const baseUrl = await vscode.window.showInputBox({
+        title: vscode.l10n.t('Enter the base URL of the OpenAI-compatible endpoint'),
+        prompt: vscode.l10n.t('e.g. http://localhost:11434/v1 (Ollama), http://localhost:8000/v1 (vLLM)'),
+        value: currentBaseUrl,
+        ignoreFocusOut: true,
+        validateInput: v => /^https?:\/\/\S+$/.test(v.trim()) ? undefined : vscode.l10n.t('Enter a URL starting with http:// or https://'),
+    });
+    if (!baseUrl) { return undefined; }
+
+    let apiKey = await secrets.get(OPENAI_API_KEY_SECRET);
+    if (apiKey === undefined) {
+        const input = await vscode.window.showInputBox({
+            title: vscode.l10n.t('Enter the API key of the OpenAI-compatible endpoint'),
+            prompt: vscode.l10n.t('Leave empty if the endpoint does not require a key. The key is kept in the secret storage.'),
+            password: true,
+            ignoreFocusOut: true,
+        });
+        if (input === undefined) { return undefined; }
+        // キーが不要なことも空文字列として保存し、次回から尋ねない
+        await secrets.store(OPENAI_API_KEY_SECRET, input);
+        apiKey = input;
+    }
+
+    let modelId: string | undefined;
+    try {
+        const ids = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: vscode.l10n.t('Loading the models of the endpoint...'), cancellable: true },
+            (_progress, token) => listOpenAiCompatibleModels(baseUrl.trim(), apiKey || undefined, token)
+        );
+        if (ids.length > 0) {
+            modelId = (await vscode.window.showQuickPick(
+                ids.map(id => ({ label: id, description: id === currentModel ? vscode.l10n.t('current') : undefined })),
+                { title: vscode.l10n.t('Select a model of the endpoint'), ignoreFocusOut: true }
+            ))?.label;
+            if (!modelId) { return undefined; }
+        }
+    } catch (e) {
+        vscode.window.showWarningMessage(vscode.l10n.t('Could not list the models of the endpoint: {0}', e instanceof Error ? e.message : String(e)));
+    }
+    if (!modelId) {
+        modelId = (await vscode.window.showInputBox({
+            title: vscode.l10n.t('Enter the model name'),
+            prompt: vscode.l10n.t('e.g. qwen2.5-coder:32b'),
+            value: currentModel,
+            ignoreFocusOut: true,
+        }))?.trim();
+        if (!modelId) { return undefined; }
+    }
+
+    const maxInputTokens = await vscode.window.showInputBox({
+        title: vscode.l10n.t('Enter the context length of the model (tokens)'),
+        value: String(getConfig().openAiMaxInputTokens),
+        ignoreFocusOut: true,
+        validateInput: v => /^\d+$/.test(v.trim()) && Number(v) > 0 ? undefined : vscode.l10n.t('Enter a positive integer'),
+    });
+    if (!maxInputTokens) { return undefined; }
+
+    const config = vscode.workspace.getConfiguration('backlogReview');
+    await config.update('openAiBaseUrl', baseUrl.trim(), true);
+    await config.update('openAiModel', modelId, true);
+    await config.update('openAiMaxInputTokens', Number(maxInputTokens), true);
+    return modelId;
+}
+
+async function setOpenAiApiKey(secrets: vscode.SecretStorage): Promise<void> {
+    const input = await vscode.window.showInputBox({
+        title: vscode.l10n.t('Enter the API key of the OpenAI-compatible endpoint'),
+        prompt: vscode.l10n.t('Leave empty to delete the stored key.'),
+        password: true,
+        ignoreFocusOut: true,
+    });
+    if (input === undefined) { return; }
+    if (input) {
+        await secrets.store(OPENAI_API_KEY_SECRET, input);
+        vscode.window.showInformationMessage(vscode.l10n.t('The API key was saved.'));
+    } else {
+        await secrets.delete(OPENAI_API_KEY_SECRET);
+        vscode.window.showInformationMessage(vscode.l10n.t('The API key was deleted.'));
+    }
+}
+
+// ─── レビュープリセット選択 ────────────────────────────────────
+async function selectReviewPreset(): Promise<void> {
+    const preset = await pickReviewPreset(getConfig().reviewPreset, vscode.l10n.t('Select a review preset'));
+    if (!preset) { return; }
+    await vscode.workspace.getConfiguration('backlogReview').update('reviewPreset', preset.id, true);
+    vscode.window.showInformationMessage(vscode.l10n.t('Review preset set to "{0}"', preset.label));
+}
+
+/**
+ * プリセットを選ぶ QuickPick を表示する。現在のプリセットを選択状態にしておき、Enter だけで確定できるようにする。
+ * キャンセルされた場合は undefined を返す
+ */
+function pickReviewPreset(current: string, title: string): Promise<ReviewPreset | undefined> {
+    const items = REVIEW_PRESETS.map(p => ({
+        label: p.label,
+        description: p.id === current ? vscode.l10n.t('(selected)') : undefined,
+        detail: p.description,
+        preset: p,
+    }));
+    const quickPick = vscode.window.createQuickPick<typeof items[number]>();
+    quickPick.title = title;
+    quickPick.ignoreFocusOut = true;
+    quickPick.items = items;
+    quickPick.activeItems = items.filter(i => i.preset.id === current);
+
+    return new Promise(resolve => {
+        let picked: ReviewPreset | undefined;
+        quickPick.onDidAccept(() => {
+            picked = quickPick.selectedItems[0]?.preset;
+            quickPick.hide();
+        });
+        quickPick.onDidHide(() => {
+            quickPick.dispose();
+            resolve(picked);
+        });
+        quickPick.show();
+    });
 }
 
 // ─── レビュー実行コア ────────────────────────────────────────────
-async function executeReview(
+/**
+ * レビュー対象。Backlog のブランチ/PR とローカルの変更のどちらも、差分の取得方法だけを差し替えて同じ流れでレビューする
+ */
+interface ReviewTarget {
+    title: string;
+    prNumber: number;
+    /** パネルに表示するプロジェクト・リポジトリ名 */
+    projectKey: string;
+    repoName: string;
+    pr?: BacklogPullRequest;
+    baseBranch: string;
+    compareBranch: string;
+    /** 差分が空だったときにパネルに表示する説明 */
+    emptyDiffMessage: string;
+    loadDiffs: (progress: vscode.Progress<{ message?: string }>) => Promise<FileDiffResult>;
+}
+
+function createBranchReviewTarget(
     context: vscode.ExtensionContext,
     cfg: ReturnType<typeof getConfig>,
     projectKey: string,
     repoId: number,
     pr: BacklogPullRequest | undefined,
     issue: BacklogIssue | null,
-    issueComments: import('./backlog/backlogClient').BacklogIssueComment[],
     baseBranch: string,
     compareBranch: string
+): ReviewTarget {
+    return {
+        title: pr ? pr.summary : (issue ? `[${issue.issueKey}] ${issue.summary}` : `${compareBranch} → ${baseBranch}`),
+        prNumber: pr?.number ?? 0,
+        projectKey,
+        repoName: String(repoId),
+        pr,
+        baseBranch,
+        compareBranch,
+        emptyDiffMessage:
+            vscode.l10n.t('No differences were found between the branches.\n\nbase: {0}\ncompare: {1}\n\nCheck that the branch names are correct and that the changed files include source code.', baseBranch, compareBranch),
+        loadDiffs: progress => {
+            const client = new BacklogClient(cfg.spaceKey, cfg.apiKey, cfg.domain);
+            progress.report({ message: vscode.l10n.t('Generating diffs: {0} ← {1}', baseBranch, compareBranch) });
+            return generateFileDiffsFromBranches(
+                client, context.workspaceState, projectKey, repoId, baseBranch, compareBranch, cfg.localGitSync, progress
+            );
+        },
+    };
+}
+
+/**
+ * 差分の取得・定義元の追跡・テンプレートの読み込みを行い、プロンプトの入力を組み立てる。
+ * 差分が空の場合は undefined を返す
+ */
+async function prepareReviewInput(
+    cfg: ReturnType<typeof getConfig>,
+    preset: ReviewPreset,
+    target: ReviewTarget,
+    issue: BacklogIssue | null,
+    issueComments: import('./backlog/backlogClient').BacklogIssueComment[],
+    progress: vscode.Progress<{ message?: string }>,
+    reportProgress: (message: string) => void
+): Promise<{ input: ReviewInput; localRepo: FileDiffResult['localRepo']; notices: string[] } | undefined> {
+    const { pr, baseBranch, compareBranch } = target;
+    reportProgress(vscode.l10n.t('Review preset: {0}', preset.label));
+
+    let stepStart = Date.now();
+    const { fileDiffs, fileContents, skippedFiles, localRepo, mergeBase, notices } = await target.loadDiffs(progress);
+    reportProgress(vscode.l10n.t('Loaded diffs: {0} files ({1})', fileDiffs.length, formatElapsed(stepStart)));
+
+    if (fileDiffs.length === 0) {
+        return undefined;
+    }
+
+    // エージェントモードでは定義元・呼び出し元を先に読み込まず、モデルがツールで必要な分だけ取得する
+    stepStart = Date.now();
+    if (!cfg.agentMode) {
+        progress.report({ message: vscode.l10n.t('Tracking definitions and impact...') });
+    }
+    const tracking = cfg.agentMode
+        ? { definitions: [], impacts: [], notices: [], timeouts: 0 }
+        : await runDefinitionTracking(
+            fileDiffs, fileContents, { ...cfg, ...preset.overrides }, compareBranch, localRepo, message => progress.report({ message })
+        );
+    notices.push(...tracking.notices);
+    if (!cfg.agentMode) {
+        reportProgress(
+            vscode.l10n.t('Tracked definitions and impact: {0} definitions, {1} callers ({2})', tracking.definitions.length, tracking.impacts.length, formatElapsed(stepStart)) +
+            (tracking.timeouts > 0 ? vscode.l10n.t(' / {0} timeouts', tracking.timeouts) : '')
+        );
+    }
+
+    const templates = await loadPromptTemplates(localRepo?.root);
+    if (templates.review || templates.aggregation) {
+        reportProgress(vscode.l10n.t('Using the workspace prompt templates (.backlog-review)'));
+    }
+
+    progress.report({ message: vscode.l10n.t('Building the prompt...') });
+    return {
+        input: {
+            pullRequest: pr,
+            issue,
+            issueComments,
+            fileDiffs,
+            fileContents,
+            definitions: tracking.definitions,
+            impacts: tracking.impacts,
+            skippedFiles,
+            mergeBase,
+            notices,
+            maxCharsPerFile: cfg.maxCharsPerFile,
+            excerptContextLines: cfg.excerptContextLines,
+            baseBranch,
+            compareBranch,
+            templates,
+            preset,
+            outputLanguage: cfg.outputLanguage,
+            responseFormat: cfg.responseFormat,
+            contextByTools: cfg.agentMode,
+        },
+        localRepo,
+        notices,
+    };
+}
+
+async function executeReview(
+    context: vscode.ExtensionContext,
+    diagnostics: ReviewDiagnostics,
+    threads: ReviewThreads,
+    cfg: ReturnType<typeof getConfig>,
+    target: ReviewTarget,
+    issue: BacklogIssue | null,
+    issueComments: import('./backlog/backlogClient').BacklogIssueComment[]
 ) {
+    const preset = await pickReviewPreset(cfg.reviewPreset, vscode.l10n.t('Select the preset for this review'));
+    if (!preset) { return; }
+
     const cancellationSource = new vscode.CancellationTokenSource();
-    const panel = ReviewPanel.createOrShow(context.extensionUri);
-    const title = pr ? pr.summary : (issue ? `[${issue.issueKey}] ${issue.summary}` : `${compareBranch} → ${baseBranch}`);
-    const prNumber = pr?.number ?? 0;
-    panel.showLoading(prNumber, title, projectKey, String(repoId));
+    const panel = ReviewPanel.createOrShow(context.extensionUri, diagnostics, threads);
+    const { title, prNumber, projectKey, repoName, pr, baseBranch, compareBranch } = target;
+    panel.showLoading(prNumber, title, projectKey, repoName);
 
     await vscode.window.withProgress(
         { location: vscode.ProgressLocation.Notification, title: 'Backlog AI Reviewer', cancellable: true },
         async (progress, token) => {
             token.onCancellationRequested(() => cancellationSource.cancel());
             try {
-                const client = new BacklogClient(cfg.spaceKey, cfg.apiKey, cfg.domain);
+                const reportProgress = (message: string) => {
+                    progress.report({ message });
+                    panel.showProgress(message);
+                };
 
-                progress.report({ message: `差分を生成中: ${baseBranch} ← ${compareBranch}` });
-                const { fileDiffs, fileContents } = await generateFileDiffsFromBranches(
-                    client, projectKey, repoId, baseBranch, compareBranch, cfg.maxCharsPerFile, progress
-                );
+                const prepared = await prepareReviewInput(cfg, preset, target, issue, issueComments, progress, reportProgress);
+                if (!prepared) {
+                    panel.showError(target.emptyDiffMessage);
+                    return;
+                }
+                const { input: reviewInput, localRepo, notices } = prepared;
+                const { fileDiffs, fileContents, skippedFiles } = reviewInput;
+
+                let stepStart = Date.now();
+                progress.report({ message: vscode.l10n.t('Selecting the AI model...') });
+                const model = await selectReviewModel(cfg, context.secrets);
+
+                let result: ReviewResult;
+                let toolCalls: AgentToolCall[] = [];
+                if (cfg.agentMode) {
+                    const packed = await packReviewPrompt(reviewInput, model, cancellationSource.token);
+                    if (packed.omittedContent.length > 0) {
+                        reportProgress(vscode.l10n.t('Omitted or summarized {0} context items due to the token limit', packed.omittedContent.length));
+                    }
 
-                if (fileDiffs.length === 0) {
-                    panel.showError(
-                        `ブランチ間の差分が検出されませんでした。\n\nbase: ${baseBranch}\ncompare: ${compareBranch}\n\n` +
-                        'ブランチ名が正しいか、対象ファイルにソースコードが含まれているか確認してください。'
+                    const session = await openAgentSession(localRepo, fileContents, cfg);
+                    try {
+                        reportProgress(vscode.l10n.t('{0} is reviewing in agent mode (up to {1} tool rounds)...', model.name, cfg.agentMaxSteps));
+                        const agentResult = await runAgentReview(
+                            model,
+                            packed.prompt,
+                            session,
+                            cfg.agentMaxSteps,
+                            prNumber,
+                            title,
+                            cancellationSource.token,
+                            call => reportProgress(call.failed
+                                ? vscode.l10n.t('Tool {0} {1} failed: {2}', call.tool, call.input, call.output)
+                                : vscode.l10n.t('Tool {0} {1}', call.tool, call.input)),
+                            (chunk) => panel.appendChunk(chunk),
+                            reviewInput.responseFormat
+                        );
+                        result = agentResult;
+                        toolCalls = agentResult.toolCalls;
+                    } finally {
+                        await session.dispose();
+                    }
+                    result.omittedContent = packed.omittedContent;
+                } else if (await needsChunkedReview(reviewInput, model, cfg.reviewMode, cancellationSource.token)) {
+                    result = await runChunkedReview(
+                        reviewInput,
+                        model,
+                        prNumber,
+                        title,
+                        cancellationSource.token,
+                        reportProgress,
+                        (chunk) => panel.appendChunk(chunk)
                     );
-                    return;
+                } else {
+                    const packed = await packReviewPrompt(reviewInput, model, cancellationSource.token);
+                    if (packed.omittedContent.length > 0) {
+                        reportProgress(vscode.l10n.t('Omitted or summarized {0} context items due to the token limit', packed.omittedContent.length));
+                    }
+
+                    reportProgress(vscode.l10n.t('{0} is reviewing...', model.name));
+                    result = await runWithModel(
+                        model,
+                        packed.prompt,
+                        prNumber,
+                        title,
+                        cancellationSource.token,
+                        (chunk) => panel.appendChunk(chunk),
+                        reviewInput.responseFormat
+                    );
+                    result.omittedContent = packed.omittedContent;
                 }
+                reportProgress(vscode.l10n.t('AI review ({0})', formatElapsed(stepStart)));
 
-                progress.report({ message: '定義元を追跡中...' });
-                const allDefinitions = await runDefinitionTracking(fileDiffs, fileContents, cfg);
+                if (result.structuredError) {
+                    notices.push(vscode.l10n.t('The structured findings could not be parsed, so the response is shown as is: {0}', result.structuredError));
+                }
 
-                progress.report({ message: 'プロンプトを組み立て中...' });
-                const reviewInput: ReviewInput = {
-                    pullRequest: pr,
-                    issue,
-                    issueComments,
-                    fileDiffs,
-                    fileContents,
-                    definitions: allDefinitions,
-                    maxCharsPerFile: cfg.maxCharsPerFile,
-                    baseBranch,
-                    compareBranch,
-                };
-                const prompt = buildReviewPrompt(reviewInput);
-
-                progress.report({ message: 'GitHub Copilotがレビュー中...' });
-                const result = await runAiReview(
-                    prompt,
-                    cfg.copilotModel,
-                    prNumber,
-                    title,
-                    cancellationSource.token,
-                    (chunk) => panel.appendChunk(chunk)
-                );
+                let markdown = result.rawMarkdown;
+                let filteredFindings: RejectedFinding[] = [];
+                if (cfg.verificationMode !== 'off') {
+                    stepStart = Date.now();
+                    reportProgress(cfg.verificationMode === 'llm'
+                        ? vscode.l10n.t('Verifying findings against the diff with the AI model...')
+                        : vscode.l10n.t('Verifying findings against the diff...'));
+                    if (result.structured) {
+                        const verified = await verifyStructuredReview(
+                            result.structured, fileDiffs, fileContents, cfg.verificationMode, model, cancellationSource.token
+                        );
+                        result.structured = verified.review;
+                        filteredFindings = verified.rejected;
+                    } else {
+                        const verified = await verifyMarkdownReview(
+                            markdown, fileDiffs, fileContents, cfg.verificationMode, model, cancellationSource.token
+                        );
+                        markdown = verified.markdown;
+                        filteredFindings = verified.rejected;
+                    }
+                    reportProgress(vscode.l10n.t('Verified findings: {0} filtered ({1})', filteredFindings.length, formatElapsed(stepStart)));
+                }
+                if (result.structured) {
+                    markdown = formatStructuredReviewAsMarkdown(result.structured, cfg.outputLanguage);
+                }
 
-                panel.showResult(prNumber, title, projectKey, String(repoId), cfg.spaceKey, result.rawMarkdown, result.model, issue?.issueKey);
+                panel.showResult(prNumber, title, projectKey, repoName, cfg.spaceKey, markdown, result.model, issue?.issueKey, {
+                    skippedFiles,
+                    omittedContent: result.omittedContent,
+                    notices,
+                    presetLabel: preset.label,
+                    structured: result.structured,
+                    filteredFindings,
+                    toolCalls,
+                    conversation: new ReviewConversation(model, result.prompt ?? '', markdown),
+                    findings: result.structured?.findings ?? parseMarkdownFindings(markdown),
+                    // ローカルGitから差分を取得した場合はそのリポジトリ、それ以外はワークスペースフォルダからファイルを探す
+                    sourceRoots: localRepo ? [vscode.Uri.file(localRepo.root)] : undefined,
+                    fileContents,
+                });
 
             } catch (err) {
                 const msg = err instanceof Error ? err.message : String(err);
@@ -530,37 +1158,407 @@ async function executeReview(
     );
 }
 
+// ─── チャット参加者（@backlog） ──────────────────────────────────
+/** チャットで行ったレビュー。フォローアップの質問に使う */
+interface ChatReview {
+    conversation: ReviewConversation;
+    markdown: string;
+    issueKey?: string;
+}
+
+/** 保持するチャットのレビューの上限（超えたら古いものから破棄する） */
+const MAX_CHAT_REVIEWS = 20;
+const chatReviews = new Map<string, ChatReview>();
+let chatReviewCount = 0;
+
+function registerChatParticipant(
+    context: vscode.ExtensionContext,
+    sidebarProvider: BacklogSidebarProvider
+): vscode.Disposable {
+    const participant = vscode.chat.createChatParticipant(
+        'backlogReview.chat',
+        (request, chatContext, stream, token) => handleChatRequest(context, sidebarProvider, request, chatContext, stream, token)
+    );
+    participant.iconPath = vscode.Uri.joinPath(context.extensionUri, 'media', 'icon.png');
+    return participant;
+}
+
+async function handleChatRequest(
+    context: vscode.ExtensionContext,
+    sidebarProvider: BacklogSidebarProvider,
+    request: vscode.ChatRequest,
+    chatContext: vscode.ChatContext,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken
+): Promise<vscode.ChatResult> {
+    if (!request.command) {
+        return answerChatFollowUp(request, chatContext, stream, token);
+    }
+
+    const cfg = getConfig();
+    if (!cfg.spaceKey || !cfg.apiKey) {
+        stream.markdown(vscode.l10n.t('Backlog is not configured yet. Set the space key and API key first.'));
+        stream.button({ command: 'backlogReview.configure', title: vscode.l10n.t('Configure Backlog') });
+        return {};
+    }
+
+    const client = new BacklogClient(cfg.spaceKey, cfg.apiKey, cfg.domain);
+    const args = request.prompt.trim().split(/\s+/).filter(Boolean);
+    try {
+        switch (request.command) {
+            case 'review': {
+                const issueKey = parseChatIssueKey(args[0], '/review PROJ-123');
+                const { issue, comments } = await fetchIssueWithComments(client, issueKey);
+                stream.progress(vscode.l10n.t('Looking for the pull request linked to {0}...', issueKey));
+                const found = await findPullRequestForIssue(client, issueKey);
+                if (!found) {
+                    stream.markdown(vscode.l10n.t('No open pull request is linked to {0}. Use `/branch` to review branches directly.', issueKey));
+                    return {};
+                }
+                const { projectKey, pr } = found;
+                return runChatReview(
+                    context, cfg,
+                    createBranchReviewTarget(context, cfg, projectKey, pr.repositoryId, pr, issue, pr.base, pr.branch),
+                    issue, comments, request.model, stream, token
+                );
+            }
+            case 'pr': {
+                const usage = '/pr [PROJECT/repo] 42';
+                const { projectKey, repository, rest } = await resolveChatRepository(client, sidebarProvider, args, 1, usage);
+                const prNumber = Number(rest[0].replace(/^#/, ''));
+                if (!Number.isInteger(prNumber) || prNumber <= 0) {
+                    throw new Error(vscode.l10n.t('Usage: {0}', usage));
+                }
+                const pr = await client.getPullRequest(projectKey, repository.id, prNumber);
+                const linked = pr.issue?.issueKey
+                    ? await fetchIssueWithComments(client, pr.issue.issueKey).catch(() => undefined)
+                    : undefined;
+                return runChatReview(
+                    context, cfg,
+                    createBranchReviewTarget(context, cfg, projectKey, pr.repositoryId, pr, linked?.issue ?? null, pr.base, pr.branch),
+                    linked?.issue ?? null, linked?.comments ?? [], request.model, stream, token
+                );
+            }
+            case 'branch': {
+                const usage = '/branch [PROJECT/repo] main feature/x';
+                const { projectKey, repository, rest } = await resolveChatRepository(client, sidebarProvider, args, 2, usage);
+                const [baseBranch, compareBranch] = rest;
+                // 課題はサイドバー（または /issue）で選択中のものをコンテキストに含める
+                const issue = sidebarProvider.state.issue?.issue ?? null;
+                return runChatReview(
+                    context, cfg,
+                    createBranchReviewTarget(context, cfg, projectKey, repository.id, undefined, issue, baseBranch, compareBranch),
+                    issue, sidebarProvider.state.issue?.comments ?? [], request.model, stream, token
+                );
+            }
+            case 'issue': {
+                const issueKey = parseChatIssueKey(args[0], '/issue PROJ-123');
+                const { issue, comments } = await fetchIssueWithComments(client, issueKey);
+                sidebarProvider.updateSelection({ issue: { issue, comments } });
+                stream.markdown(formatChatIssue(issue, comments.length));
+                stream.markdown('\n\n' + vscode.l10n.t('Selected {0} as the issue for the next review (`/branch`, or the sidebar).', issue.issueKey));
+                return {};
+            }
+            default:
+                stream.markdown(chatUsage());
+                return {};
+        }
+    } catch (err) {
+        if (token.isCancellationRequested) { return {}; }
+        const msg = err instanceof Error ? err.message : String(err);
+        return { errorDetails: { message: msg } };
+    }
+}
+
+/**
+ * 差分を取得してチャットのモデルでレビューし、結果をストリーミングで表示する。
+ * 応答に Markdown で流すため、構造化モード・エージェントモードの設定は使わない
+ */
+async function runChatReview(
+    context: vscode.ExtensionContext,
+    cfg: ReturnType<typeof getConfig>,
+    target: ReviewTarget,
+    issue: BacklogIssue | null,
+    issueComments: import('./backlog/backlogClient').BacklogIssueComment[],
+    model: vscode.LanguageModelChat,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken
+): Promise<vscode.ChatResult> {
+    const chatCfg = { ...cfg, agentMode: false, responseFormat: 'markdown' as const };
+    const prepared = await prepareReviewInput(
+        chatCfg, getReviewPreset(cfg.reviewPreset), target, issue, issueComments, { report: () => { } }, message => stream.progress(message)
+    );
+    if (!prepared) {
+        stream.markdown(target.emptyDiffMessage);
+        return {};
+    }
+    const { input, notices } = prepared;
+
+    stream.markdown(`### ${target.title}\n\n`);
+    let result: ReviewResult;
+    if (await needsChunkedReview(input, model, cfg.reviewMode, token)) {
+        result = await runChunkedReview(
+            input, model, target.prNumber, target.title, token, message => stream.progress(message), chunk => stream.markdown(chunk)
+        );
+    } else {
+        const packed = await packReviewPrompt(input, model, token);
+        if (packed.omittedContent.length > 0) {
+            notices.push(vscode.l10n.t('Omitted or summarized {0} context items due to the token limit', packed.omittedContent.length));
+        }
+        stream.progress(vscode.l10n.t('{0} is reviewing...', model.name));
+        result = await runWithModel(
+            model, packed.prompt, target.prNumber, target.title, token, chunk => stream.markdown(chunk), 'markdown'
+        );
+    }
+
+    if (input.skippedFiles.length > 0) {
+        notices.push(vscode.l10n.t('Skipped {0} files', input.skippedFiles.length));
+    }
+    if (notices.length > 0) {
+        stream.markdown('\n\n---\n\n' + notices.map(n => `> ${n}`).join('\n>\n') + '\n');
+    }
+
+    const reviewId = `${Date.now()}-${++chatReviewCount}`;
+    chatReviews.set(reviewId, {
+        conversation: new ReviewConversation(model, result.prompt ?? '', result.rawMarkdown),
+        markdown: result.rawMarkdown,
+        issueKey: issue?.issueKey,
+    });
+    if (chatReviews.size > MAX_CHAT_REVIEWS) {
+        chatReviews.delete(chatReviews.keys().next().value!);
+    }
+
+    if (issue) {
+        stream.button({
+            command: 'backlogReview.postComment',
+            title: vscode.l10n.t('Post to {0}', issue.issueKey),
+            arguments: [{ issueKey: issue.issueKey, content: result.rawMarkdown }],
+        });
+    }
+    return { metadata: { reviewId } };
+}
+
+/**
+ * コマンドなしのメッセージは、この会話で直前に行ったレビューへのフォローアップの質問として答える
+ */
+async function answerChatFollowUp(
+    request: vscode.ChatRequest,
+    chatContext: vscode.ChatContext,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken
+): Promise<vscode.ChatResult> {
+    const reviewId = [...chatContext.history]
+        .reverse()
+        .map(turn => turn instanceof vscode.ChatResponseTurn ? turn.result.metadata?.reviewId : undefined)
+        .find((id): id is string => typeof id === 'string');
+    const review = reviewId ? chatReviews.get(reviewId) : undefined;
+    if (!reviewId || !review) {
+        stream.markdown(chatUsage());
+        return {};
+    }
+
+    try {
+        await review.conversation.ask(request.prompt, token, chunk => stream.markdown(chunk));
+    } catch (err) {
+        if (token.isCancellationRequested) { return { metadata: { reviewId } }; }
+        const msg = err instanceof Error ? err.message : String(err);
+        return { errorDetails: { message: msg }, metadata: { reviewId } };
+    }
+
+    if (review.issueKey) {
+        stream.button({
+            command: 'backlogReview.postComment',
+            title: vscode.l10n.t('Post to {0} with the follow-up questions', review.issueKey),
+            arguments: [{ issueKey: review.issueKey, content: review.markdown + review.conversation.formatThreadAsMarkdown() }],
+        });
+    }
+    return { metadata: { reviewId } };
+}
+
+function chatUsage(): string {
+    return [
+        vscode.l10n.t('Review Backlog pull requests and branches in chat:'),
+        '',
+        `- \`/review PROJ-123\`: ${vscode.l10n.t('review the open pull request linked to the issue')}`,
+        `- \`/pr [PROJECT/repo] 42\`: ${vscode.l10n.t('review a pull request')}`,
+        `- \`/branch [PROJECT/repo] main feature/x\`: ${vscode.l10n.t('review the differences between two branches')}`,
+        `- \`/issue PROJ-123\`: ${vscode.l10n.t('select an issue as the context of the next review')}`,
+        '',
+        vscode.l10n.t('The repository defaults to the one selected in the Backlog sidebar. After a review, ask follow-up questions without a command.'),
+    ].join('\n');
+}
+
+function parseChatIssueKey(arg: string | undefined, usage: string): string {
+    const issueKey = arg?.toUpperCase();
+    if (!issueKey || !/^[A-Z][A-Z0-9_]*-\d+$/.test(issueKey)) {
+        throw new Error(vscode.l10n.t('Usage: {0}', usage));
+    }
+    return issueKey;
+}
+
+async function fetchIssueWithComments(
+    client: BacklogClient,
+    issueKey: string
+): Promise<{ issue: BacklogIssue; comments: import('./backlog/backlogClient').BacklogIssueComment[] }> {
+    const [issue, comments] = await Promise.all([client.getIssue(issueKey), client.getIssueComments(issueKey)]);
+    return { issue, comments };
+}
+
+/**
+ * 課題に紐付いたオープンなPRを、課題のプロジェクトの全リポジトリから探す（複数あれば番号が最も大きいもの）
+ */
+async function findPullRequestForIssue(
+    client: BacklogClient,
+    issueKey: string
+): Promise<{ projectKey: string; pr: BacklogPullRequest } | undefined> {
+    const projectKey = issueKey.replace(/-\d+$/, '');
+    const repositories = await client.listRepositories(projectKey);
+    const pullRequests = await mapWithConcurrency(repositories, 4, repo => client.listPullRequests(projectKey, repo.id));
+    const linked = pullRequests
+        .flat()
+        .filter(pr => pr.issue?.issueKey === issueKey)
+        .sort((a, b) => b.number - a.number);
+    return linked.length > 0 ? { projectKey, pr: linked[0] } : undefined;
+}
+
+/**
+ * 引数がコマンドの引数の数（argCount）より1つ多ければ先頭を `PROJECT/repo` として、同じ数ならサイドバーで選択中のリポジトリを使う。
+ * ブランチ名にも `/` が含まれるため、先頭の引数の形ではなく引数の数で判断する（それ以外の数は使い方のエラー）
+ */
+async function resolveChatRepository(
+    client: BacklogClient,
+    sidebarProvider: BacklogSidebarProvider,
+    args: string[],
+    argCount: number,
+    usage: string
+): Promise<{ projectKey: string; repository: BacklogRepository; rest: string[] }> {
+    if (args.length === argCount + 1) {
+        const match = args[0].match(/^([A-Za-z][A-Za-z0-9_]*)\/([^/]+)$/);
+        if (!match) {
+            throw new Error(vscode.l10n.t('Usage: {0}', usage));
+        }
+        const projectKey = match[1].toUpperCase();
+        const repository = await client.getRepository(projectKey, match[2]);
+        return { projectKey, repository, rest: args.slice(1) };
+    }
+    if (args.length !== argCount) {
+        throw new Error(vscode.l10n.t('Usage: {0}', usage));
+    }
+
+    const { project, repository } = sidebarProvider.state;
+    const projectKey = project?.projectKey || repository?.httpUrl.split('/').slice(-3, -2)[0];
+    if (!projectKey || !repository) {
+        throw new Error(vscode.l10n.t('No repository is selected. Specify it as PROJECT/repo, or select one in the Backlog sidebar.'));
+    }
+    return { projectKey, repository, rest: args };
+}
+
+function formatChatIssue(issue: BacklogIssue, commentCount: number): string {
+    const description = issue.description.length > 1000 ? issue.description.slice(0, 1000) + '…' : issue.description;
+    return [
+        `### [${issue.issueKey}] ${issue.summary}`,
+        '',
+        vscode.l10n.t('Status: {0} / Assignee: {1} / Comments: {2}', issue.status.name, issue.assignee?.name ?? '-', commentCount),
+        '',
+        description,
+    ].join('\n');
+}
+
 async function generateFileDiffsFromBranches(
     client: BacklogClient,
+    workspaceState: vscode.Memento,
     projectKey: string,
     repoId: number,
     baseBranch: string,
     compareBranch: string,
-    maxCharsPerFile: number,
+    localGitSync: LocalGitSyncMode,
     progress: vscode.Progress<{ message?: string }>
-): Promise<{ fileDiffs: import('./git/diffAnalyzer').FileDiff[]; fileContents: Map<string, string> }> {
+): Promise<FileDiffResult> {
     const errors: string[] = [];
-    const baseRefs = buildRefCandidates(baseBranch);
+    const notices: string[] = [];
     const compareRefs = buildRefCandidates(compareBranch);
 
-    progress.report({ message: `${compareBranch} のファイル一覧を取得中...` });
-    const allFiles = await collectAllFilesWithFallback(client, projectKey, repoId, compareRefs, '', 0, errors);
+    // ワークスペース内の対応するローカルクローン（git remote で照合）を探す
+    progress.report({ message: vscode.l10n.t('Checking the local repository...') });
+    const repository = await client.getRepository(projectKey, repoId).catch(() => null);
+    const localRepoRoot = repository ? await resolveWorkspaceRepository(workspaceState, repository) : null;
+
+    // Backlog の PR 画面と同じく、マージベースからの差分 (three-dot) を取る
+    progress.report({ message: vscode.l10n.t('Checking the merge base...') });
+    const localRefs = localRepoRoot
+        ? await resolveLocalBranchRefs(localRepoRoot, baseBranch, compareBranch, localGitSync, notices)
+        : null;
+    let mergeBase = localRefs?.mergeBase ?? null;
+    let baseRefs = mergeBase ? [mergeBase] : buildRefCandidates(baseBranch);
+
+    const detect = () => detectChangedFiles(
+        client, projectKey, repoId, baseRefs, compareRefs,
+        message => progress.report({ message })
+    );
 
-    const fileDiffs: import('./git/diffAnalyzer').FileDiff[] = [];
+    progress.report({ message: vscode.l10n.t('Detecting changed files between {0} and {1}...', baseBranch, compareBranch) });
+    let detection: ChangedFileDetection = { candidates: [], skippedFiles: [] };
+    try {
+        detection = await detect();
+    } catch (e) {
+        if (mergeBase) {
+            // マージベースのコミットをAPIで参照できない場合はブランチ先端どうしの比較に切り替える
+            notices.push(
+                vscode.l10n.t('The merge base ({0}) could not be read through the Backlog API, so the branch tips are compared directly. Changes made only on {1} may be included in the diff.', mergeBase.slice(0, 10), baseBranch)
+            );
+            mergeBase = null;
+            baseRefs = buildRefCandidates(baseBranch);
+            try {
+                detection = await detect();
+            } catch (retryError) {
+                errors.push(retryError instanceof Error ? retryError.message : String(retryError));
+            }
+        } else {
+            errors.push(e instanceof Error ? e.message : String(e));
+        }
+    }
+
+    // マージベースを API で参照できなかった場合は上で通知しているため、ローカルで求められなかった場合だけ通知する
+    if (!localRefs?.mergeBase) {
+        notices.push(
+            vscode.l10n.t('The merge base could not be determined from the local Git repository, so the branch tips are compared directly. Changes made only on {0} may look as if they were reverted on the compare branch.', baseBranch)
+        );
+    }
+
+    const fileDiffs: FileDiff[] = [];
     const fileContents = new Map<string, string>();
+    const skippedFiles: SkippedFile[] = [...detection.skippedFiles];
+
+    // オブジェクトIDが得られなかった候補は、ローカルクローンで判定できればリポジトリ全体の内容を取得せずに済ませる
+    let candidates = detection.candidates;
+    if (localRepoRoot && localRefs && mergeBase && candidates.some(c => c.kind === 'unknown')) {
+        progress.report({ message: vscode.l10n.t('Checking changed files in the local repository...') });
+        candidates = await resolveUnknownCandidatesLocally(
+            client, projectKey, repoId, localRepoRoot, mergeBase, localRefs.compareRef, compareBranch, candidates
+        ) ?? candidates;
+    }
 
-    // 最大30ファイル。それ以上の場合はスキップして通知
-    const targetFiles = allFiles.slice(0, 30);
+    // 追加・削除が確定している側は取得せず空として扱う
+    const absent: Promise<{ ok: boolean; content: string; error?: string }> = Promise.resolve({ ok: true, content: '' });
 
-    for (const filePath of targetFiles) {
+    for (const { path: filePath, kind } of candidates) {
+        progress.report({ message: vscode.l10n.t('Loading file contents: {0}', filePath) });
         try {
             const [baseResult, compareResult] = await Promise.all([
-                getFileContentWithFallback(client, projectKey, repoId, baseRefs, filePath),
-                getFileContentWithFallback(client, projectKey, repoId, compareRefs, filePath),
+                kind === 'added' ? absent : getFileContentWithFallback(client, projectKey, repoId, baseRefs, filePath),
+                kind === 'deleted' ? absent : getFileContentWithFallback(client, projectKey, repoId, compareRefs, filePath),
             ]);
 
-            if (!baseResult.ok && !compareResult.ok) {
-                errors.push(`file: ${filePath} | base: ${baseResult.error ?? 'unknown'} | compare: ${compareResult.error ?? 'unknown'}`);
+            if (!baseResult.ok || !compareResult.ok) {
+                const error = `base: ${baseResult.error ?? 'ok'} | compare: ${compareResult.error ?? 'ok'}`;
+                errors.push(`file: ${filePath} | ${error}`);
+                // 変更の有無が未確定のファイルは、変更があったものとして扱わない
+                skippedFiles.push({
+                    path: filePath,
+                    reason: kind === 'unknown'
+                        ? vscode.l10n.t('Could not check whether the file changed ({0})', error.slice(0, 200))
+                        : vscode.l10n.t('Failed to load file contents ({0})', error.slice(0, 200)),
+                });
                 continue;
             }
 
@@ -572,12 +1570,14 @@ async function generateFileDiffsFromBranches(
             const diffText = generateUnifiedDiff(baseContent, branchContent, filePath, baseBranch, compareBranch);
             const parsed = parseDiff(diffText);
             for (const fd of parsed) {
-                fileDiffs.push({ ...fd, unifiedDiff: diffText });
+                fileDiffs.push({ ...fd, isNew: kind === 'added', isDeleted: kind === 'deleted', unifiedDiff: diffText });
+            }
+            if (kind !== 'deleted') {
+                fileContents.set(filePath, branchContent);
             }
-            fileContents.set(filePath, branchContent);
         } catch (e) {
             errors.push(`file: ${filePath} | unexpected: ${e instanceof Error ? e.message : String(e)}`);
-            // Skip individual file fail
+            skippedFiles.push({ path: filePath, reason: vscode.l10n.t('Unexpected error') });
         }
     }
 
@@ -587,65 +1587,104 @@ async function generateFileDiffsFromBranches(
         );
 
         if (contentsUnsupported) {
-            const local = await pickLocalRepositoryPath();
+            const local = localRepoRoot ?? await pickLocalRepositoryPath();
             if (local) {
-                return generateFileDiffsFromLocalGit(local, baseBranch, compareBranch, progress);
+                if (repository && !localRepoRoot) {
+                    await rememberWorkspaceRepository(workspaceState, repository, local);
+                }
+                return generateFileDiffsFromLocalGit(local, baseBranch, compareBranch, localGitSync, progress);
             }
         }
 
         throw new Error(
-            '差分生成中にBacklog APIエラーが発生しました。' +
-            `\nbase: ${baseBranch}\ncompare: ${compareBranch}` +
-            `\n\n例: ${errors[0]}`
+            vscode.l10n.t('A Backlog API error occurred while generating diffs.\nbase: {0}\ncompare: {1}\n\ne.g. {2}', baseBranch, compareBranch, errors[0])
         );
     }
 
-    return { fileDiffs, fileContents };
+    return {
+        fileDiffs,
+        fileContents,
+        skippedFiles,
+        // 定義元の追跡は比較ブランチをローカルで解決できればそのスナップショットで行う
+        localRepo: localRepoRoot ? { root: localRepoRoot, compareRef: localRefs?.compareRef } : undefined,
+        mergeBase: mergeBase ?? undefined,
+        notices,
+    };
 }
 
-const SOURCE_EXT = /\.(ts|tsx|js|jsx|java|py|go|rb|php|cs|cpp|c|h|swift|kt|rs|vue|svelte|scala|dart)$/;
+/**
+ * API モードの差分用に、対応するローカルクローンで比較ブランチの参照とマージベースを求める（解決できなければ null）。
+ * git fetch に失敗した場合は、その旨を notices に加えて既存の参照で続ける
+ */
+async function resolveLocalBranchRefs(
+    repoRoot: string,
+    baseBranch: string,
+    compareBranch: string,
+    syncMode: LocalGitSyncMode,
+    notices: string[]
+): Promise<{ compareRef: string; mergeBase: string | null } | null> {
+    if (syncMode === 'fetch') {
+        try {
+            await fetchRemoteRefs(repoRoot);
+        } catch (e) {
+            notices.push(vscode.l10n.t('git fetch failed, continuing with local refs: {0}', e instanceof Error ? e.message : String(e)));
+        }
+    }
+    const preferRemote = syncMode === 'fetch';
 
-async function collectAllFiles(
-    client: BacklogClient,
-    projectKey: string,
-    repoId: number,
-    ref: string,
-    dirPath: string,
-    depth: number
-): Promise<string[]> {
-    if (depth > 5) { return []; }
-    let entries;
+    let compareRef: string;
     try {
-        entries = await client.listFiles(projectKey, repoId, ref, dirPath);
+        compareRef = await resolveLocalGitRef(repoRoot, compareBranch, preferRemote);
     } catch {
-        return [];
+        return null;
     }
 
-    const files: string[] = [];
-    for (const entry of entries) {
-        const fullPath = dirPath ? `${dirPath}/${entry.name}` : entry.name;
-        if (entry.type === 'tree') {
-            const sub = await collectAllFiles(client, projectKey, repoId, ref, fullPath, depth + 1);
-            files.push(...sub);
-        } else if (entry.type === 'blob' && SOURCE_EXT.test(entry.name)) {
-            files.push(fullPath);
-        }
+    try {
+        const baseRef = await resolveLocalGitRef(repoRoot, baseBranch, preferRemote);
+        return { compareRef, mergeBase: await findMergeBase(repoRoot, baseRef, compareRef) };
+    } catch {
+        return { compareRef, mergeBase: null };
     }
-    return files;
 }
 
-async function pickLocalRepositoryPath(): Promise<string | null> {
-    const picks: { label: string; description?: string; value: 'cached' | 'select' | 'cancel' }[] = [];
-
-    if (cachedLocalRepoPath) {
-        picks.push({ label: '前回のローカルリポジトリを使う', description: cachedLocalRepoPath, value: 'cached' });
+/**
+ * 変更の有無が未確定（unknown）の候補を、ローカルクローンのマージベースからの差分で判定する。
+ * ローカルの比較ブランチが Backlog 上の比較ブランチの先端と一致しない場合は判定せず undefined を返す
+ */
+async function resolveUnknownCandidatesLocally(
+    client: BacklogClient,
+    projectKey: string,
+    repoId: number,
+    repoRoot: string,
+    mergeBase: string,
+    compareRef: string,
+    compareBranch: string,
+    candidates: ChangedFileCandidate[]
+): Promise<ChangedFileCandidate[] | undefined> {
+    try {
+        const branchName = compareBranch.replace(/^refs\/heads\//, '');
+        const branch = (await client.listBranches(projectKey, repoId)).find(b => b.name === branchName);
+        if (branch?.commit.id !== compareRef) { return undefined; }
+
+        const changed = new Set(parseGitNameOnlyOutput(
+            await runGit(repoRoot, ['diff', '--name-only', '-z', '--no-renames', mergeBase, compareRef])
+        ));
+        return candidates
+            .filter(c => c.kind !== 'unknown' || changed.has(c.path))
+            .map(c => c.kind === 'unknown' ? { ...c, kind: 'modified' as const } : c);
+    } catch {
+        return undefined;
     }
+}
 
-    picks.push({ label: 'ローカルGitリポジトリを選択...', value: 'select' });
-    picks.push({ label: 'キャンセル', value: 'cancel' });
+async function pickLocalRepositoryPath(): Promise<string | null> {
+    const picks: { label: string; description?: string; value: 'select' | 'cancel' }[] = [
+        { label: vscode.l10n.t('Select a local Git repository...'), description: vscode.l10n.t('The selected folder is used automatically from next time'), value: 'select' },
+        { label: vscode.l10n.t('Cancel'), value: 'cancel' },
+    ];
 
     const pick = await vscode.window.showQuickPick(picks, {
-        title: 'Backlog APIでファイル取得できないため、ローカルGitから差分を取得します',
+        title: vscode.l10n.t('Files cannot be loaded through the Backlog API, so diffs are taken from local Git'),
         ignoreFocusOut: true,
     });
 
@@ -653,15 +1692,11 @@ async function pickLocalRepositoryPath(): Promise<string | null> {
         return null;
     }
 
-    if (pick.value === 'cached' && cachedLocalRepoPath) {
-        return cachedLocalRepoPath;
-    }
-
     const folder = await vscode.window.showOpenDialog({
         canSelectFiles: false,
         canSelectFolders: true,
         canSelectMany: false,
-        openLabel: 'このフォルダを使用',
+        openLabel: vscode.l10n.t('Use this folder'),
     });
 
     if (!folder || folder.length === 0) {
@@ -671,193 +1706,74 @@ async function pickLocalRepositoryPath(): Promise<string | null> {
     const selected = folder[0].fsPath;
 
     try {
-        const repoRoot = await resolveGitRepoRoot(selected);
-        cachedLocalRepoPath = repoRoot;
-        return repoRoot;
+        return await resolveGitRepoRoot(selected);
     } catch (e) {
         const msg = e instanceof Error ? e.message : String(e);
-        vscode.window.showErrorMessage(`選択したフォルダからGitリポジトリを特定できませんでした: ${msg}`);
+        vscode.window.showErrorMessage(vscode.l10n.t('Could not find a Git repository in the selected folder: {0}', msg));
         return null;
     }
 }
 
-async function runGit(repoPath: string, args: string[]): Promise<string> {
-    const normalizedRepoPath = normalizeGitRepoPath(repoPath);
-    try {
-        const { stdout } = await execFileAsync('git', ['-C', normalizedRepoPath, ...args], {
-            maxBuffer: 20 * 1024 * 1024,
-        });
-        return stdout;
-    } catch (e) {
-        const msg = e instanceof Error ? e.message : String(e);
-        throw new Error(`git ${args.join(' ')} failed: ${msg}`);
-    }
-}
-
-function normalizeGitRepoPath(repoPath: string): string {
-    if (process.platform === 'win32') {
-        return path.win32.normalize(repoPath);
-    }
-    return repoPath;
-}
-
-async function resolveGitRepoRoot(repoPath: string): Promise<string> {
-    const root = await runGit(repoPath, ['rev-parse', '--show-toplevel']);
-    return root.trim();
-}
-
-async function getGitFileContent(repoPath: string, ref: string, filePath: string): Promise<string> {
-    try {
-        return await runGit(repoPath, ['show', `${ref}:${filePath}`]);
-    } catch {
-        return '';
-    }
-}
-
-function stripGitDiffPrefix(filePath: string): string {
-    return filePath.replace(/^[ab]\//, '');
-}
-
-function normalizeGitFilePath(filePath: string): string {
-    return stripGitDiffPrefix(filePath.trim()).replace(/\\/g, '/');
-}
-
-function parseGitNameOnlyOutput(output: string): string[] {
-    return output
-        .split('\0')
-        .map(s => normalizeGitFilePath(s))
-        .filter(Boolean);
-}
-
-function buildLocalGitRefCandidates(ref: string): string[] {
-    const r = ref.trim();
-    if (!r) { return []; }
-
-    const cands = new Set<string>([r]);
-
-    if (r.startsWith('refs/heads/')) {
-        const short = r.replace(/^refs\/heads\//, '');
-        cands.add(short);
-        cands.add(`origin/${short}`);
-        cands.add(`refs/remotes/origin/${short}`);
-    } else if (r.startsWith('refs/remotes/origin/')) {
-        const short = r.replace(/^refs\/remotes\/origin\//, '');
-        cands.add(short);
-        cands.add(`origin/${short}`);
-        cands.add(`refs/heads/${short}`);
-    } else if (r.startsWith('origin/')) {
-        const short = r.replace(/^origin\//, '');
-        cands.add(short);
-        cands.add(`refs/heads/${short}`);
-        cands.add(`refs/remotes/origin/${short}`);
-    } else {
-        cands.add(`refs/heads/${r}`);
-        cands.add(`origin/${r}`);
-        cands.add(`refs/remotes/origin/${r}`);
-    }
-
-    return [...cands];
-}
-
-async function resolveLocalGitRef(repoPath: string, inputRef: string): Promise<string> {
-    const candidates = buildLocalGitRefCandidates(inputRef);
-    for (const c of candidates) {
-        try {
-            const resolved = await runGit(repoPath, ['rev-parse', '--verify', `${c}^{commit}`]);
-            return resolved.trim();
-        } catch {
-            // try next candidate
-        }
-    }
-
-    const branches = await runGit(repoPath, ['branch', '--all', '--list']).catch(() => '');
-    throw new Error(
-        `ブランチ参照を解決できませんでした: ${inputRef}` +
-        `\n候補: ${candidates.join(', ')}` +
-        (branches ? `\n\n利用可能なブランチ:\n${branches}` : '')
-    );
-}
-
 async function generateFileDiffsFromLocalGit(
     repoPath: string,
     baseBranch: string,
     compareBranch: string,
+    syncMode: LocalGitSyncMode,
     progress: vscode.Progress<{ message?: string }>
-): Promise<{ fileDiffs: import('./git/diffAnalyzer').FileDiff[]; fileContents: Map<string, string> }> {
+): Promise<FileDiffResult> {
     const repoRoot = await resolveGitRepoRoot(repoPath);
-    if (repoRoot !== repoPath) {
-        cachedLocalRepoPath = repoRoot;
-    }
 
-    progress.report({ message: `ローカルGit差分を取得中: ${baseBranch}..${compareBranch}` });
+    progress.report({ message: vscode.l10n.t('Loading local Git diffs: {0}..{1}', baseBranch, compareBranch) });
 
     await runGit(repoRoot, ['rev-parse', '--git-dir']);
 
-    const shouldUpdate = await vscode.window.showInformationMessage(
-        `マージ元 (${baseBranch}) とマージ先 (${compareBranch}) のブランチを最新にしてよろしいですか？\n※未コミットの変更がある場合は失敗する可能性があります。`,
-        { modal: true },
-        'はい',
-        'いいえ'
-    );
-
-    if (shouldUpdate === 'はい') {
-        progress.report({ message: `ブランチを最新状態に更新中...` });
+    // 作業コピーのブランチ・未コミットの変更・stash には触れず、リモート追跡ブランチのみ更新する
+    const notices: string[] = [];
+    if (syncMode === 'fetch') {
+        progress.report({ message: vscode.l10n.t('Updating remote-tracking branches (git fetch)...') });
         try {
-            await runGit(repoRoot, ['fetch', '--all']);
-
-            const checkoutAndPull = async (branch: string) => {
-                const localBranch = branch.replace(/^origin\//, '').replace(/^refs\/remotes\/origin\//, '').replace(/^refs\/heads\//, '');
-                await runGit(repoRoot, ['checkout', localBranch]);
-                await runGit(repoRoot, ['pull', 'origin', localBranch]);
-            };
-
-            await checkoutAndPull(baseBranch);
-            await checkoutAndPull(compareBranch);
+            await fetchRemoteRefs(repoRoot);
         } catch (e) {
-            const msg = e instanceof Error ? e.message : String(e);
-            vscode.window.showErrorMessage(`ブランチの更新に失敗しました。現在の状態で続行します: ${msg}`);
+            notices.push(vscode.l10n.t('git fetch failed, continuing with local refs: {0}', e instanceof Error ? e.message : String(e)));
         }
     }
 
-    const baseRef = await resolveLocalGitRef(repoRoot, baseBranch);
-    const compareRef = await resolveLocalGitRef(repoRoot, compareBranch);
-
-    const changed = await runGit(repoRoot, ['diff', '--name-only', '-z', '--find-renames', baseRef, compareRef]);
-    const changedFiles = parseGitNameOnlyOutput(changed);
-
-    const files = changedFiles
-        .filter(f => SOURCE_EXT.test(f))
-        .slice(0, 30);
-
-    const fileDiffs: import('./git/diffAnalyzer').FileDiff[] = [];
-    const fileContents = new Map<string, string>();
-
-    for (const filePath of files) {
-        const diffText = await runGit(repoRoot, ['diff', '--find-renames', '--unified=5', baseRef, compareRef, '--', filePath]).catch(() => '');
-        if (!diffText.trim()) { continue; }
-
-        const parsed = parseDiff(diffText);
-        for (const fd of parsed) {
-            fileDiffs.push({ ...fd, unifiedDiff: diffText });
+    const preferRemote = syncMode === 'fetch';
+    const baseRef = await resolveLocalGitRef(repoRoot, baseBranch, preferRemote);
+    const compareRef = await resolveLocalGitRef(repoRoot, compareBranch, preferRemote);
 
-            const normalizedPath = normalizeGitFilePath(fd.newPath || fd.oldPath);
-            if (!fileContents.has(normalizedPath)) {
-                const branchContent = await getGitFileContent(repoRoot, compareRef, normalizedPath);
-                fileContents.set(normalizedPath, branchContent);
-            }
-        }
+    // Backlog の PR 画面と同じく、マージベースからの差分 (three-dot) を取る
+    const mergeBase = await findMergeBase(repoRoot, baseRef, compareRef);
+    const diffBaseRef = mergeBase ?? baseRef;
+    if (!mergeBase) {
+        notices.push(
+            vscode.l10n.t('No common ancestor (merge base) of {0} and {1} was found, so the branch tips are compared directly. Changes made only on {0} may look as if they were reverted on the compare branch.', baseBranch, compareBranch)
+        );
     }
 
+    const { fileDiffs, fileContents, skippedFiles, changedFiles } = await collectGitFileDiffs(
+        repoRoot,
+        [diffBaseRef, compareRef],
+        filePath => getGitFileContent(repoRoot, compareRef, filePath)
+    );
+
     if (fileDiffs.length === 0) {
         const diagnostic = changedFiles.length > 0
-            ? `\nchangedFiles: ${changedFiles.length}\n対象外ファイル例:\n${changedFiles.slice(0, 10).join('\n')}`
-            : `\nresolvedBaseRef: ${baseRef}\nresolvedCompareRef: ${compareRef}`;
+            ? vscode.l10n.t('\nchangedFiles: {0}\nExamples of excluded files:\n{1}', changedFiles.length, changedFiles.slice(0, 10).join('\n'))
+            : `\nresolvedBaseRef: ${diffBaseRef}\nresolvedCompareRef: ${compareRef}`;
         throw new Error(
-            `ローカルGitでも差分が見つかりませんでした。\nrepo: ${repoRoot}\nbase: ${baseBranch}\ncompare: ${compareBranch}${diagnostic}`
+            vscode.l10n.t('No differences were found in local Git either.\nrepo: {0}\nbase: {1}\ncompare: {2}{3}', repoRoot, baseBranch, compareBranch, diagnostic)
         );
     }
 
-    return { fileDiffs, fileContents };
+    return {
+        fileDiffs,
+        fileContents,
+        skippedFiles,
+        localRepo: { root: repoRoot, compareRef },
+        mergeBase: mergeBase ?? undefined,
+        notices,
+    };
 }
 
 function buildRefCandidates(branch: string): string[] {
@@ -869,36 +1785,6 @@ function buildRefCandidates(branch: string): string[] {
     return [b, `refs/heads/${b}`];
 }
 
-async function collectAllFilesWithFallback(
-    client: BacklogClient,
-    projectKey: string,
-    repoId: number,
-    refs: string[],
-    dirPath: string,
-    depth: number,
-    errors: string[]
-): Promise<string[]> {
-    let lastError: string | null = null;
-    for (const ref of refs) {
-        const files = await collectAllFiles(client, projectKey, repoId, ref, dirPath, depth);
-        if (files.length > 0) { return files; }
-
-        // collectAllFilesは失敗を握りつぶすため、ルートで明示チェックしてエラーを拾う
-        if (dirPath === '' && depth === 0) {
-            try {
-                await client.listFiles(projectKey, repoId, ref, dirPath);
-            } catch (e) {
-                lastError = e instanceof Error ? e.message : String(e);
-            }
-        }
-    }
-
-    if (lastError) {
-        errors.push(`listFiles failed for refs=[${refs.join(', ')}]: ${lastError}`);
-    }
-    return [];
-}
-
 async function getFileContentWithFallback(
     client: BacklogClient,
     projectKey: string,
@@ -918,32 +1804,133 @@ async function getFileContentWithFallback(
     return { ok: false, content: '', error: lastError };
 }
 
+/**
+ * 変更行から定義元を、変更された関数・クラスから呼び出し元（影響範囲）を追跡する。比較側のスナップショット（一時worktree）で追跡できず、
+ * 比較側と内容の異なるワークスペースのファイルで追跡した場合は notices で警告する
+ */
 async function runDefinitionTracking(
     fileDiffs: import('./git/diffAnalyzer').FileDiff[],
     fileContents: Map<string, string>,
-    cfg: ReturnType<typeof getConfig>
-): Promise<import('./review/definitionTracker').DefinitionContext[]> {
+    cfg: ReturnType<typeof getConfig>,
+    compareLabel: string,
+    localRepo?: { root: string; compareRef?: string },
+    onProgress?: (message: string) => void
+): Promise<{
+    definitions: import('./review/definitionTracker').DefinitionContext[];
+    impacts: ImpactContext[];
+    notices: string[];
+    timeouts: number;
+}> {
     const allDefinitions: import('./review/definitionTracker').DefinitionContext[] = [];
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || cfg.definitionDepth === 0) { return allDefinitions; }
+    const impacts: ImpactContext[] = [];
+    const notices: string[] = [];
+    if (cfg.definitionDepth === 0 && cfg.impactMaxReferences === 0) {
+        return { definitions: allDefinitions, impacts, notices, timeouts: 0 };
+    }
 
-    for (const fd of fileDiffs) {
-        const filePath = fd.newPath.replace(/^b\//, '');
-        if (!fileContents.has(filePath)) { continue; }
+    // 比較コミットを一時worktreeに展開し、作業コピーを切り替えずに比較側のコードで追跡する
+    // (作業ツリー・インデックスのレビューでは比較側がリポジトリそのものなのでそのまま使う)
+    let worktree: TemporaryWorktree | undefined;
+    if (localRepo?.compareRef) {
+        try {
+            worktree = await createTemporaryWorktree(localRepo.root, localRepo.compareRef);
+        } catch {
+            // worktreeを作れない場合は対応するローカルリポジトリのファイルで追跡する
+        }
+    }
+
+    // 対応するリポジトリが分からない場合は、ファイルが存在するワークスペースフォルダを使う（マルチルート対応）
+    const rootUris = worktree
+        ? [vscode.Uri.file(worktree.path)]
+        : localRepo
+            ? [vscode.Uri.file(localRepo.root)]
+            : (vscode.workspace.workspaceFolders ?? []).map(f => f.uri);
+
+    // プロバイダの呼び出しは全ファイルで同時実行数とタイムアウトを共有する
+    const executor = new ProviderExecutor(cfg.definitionConcurrency, cfg.definitionTimeoutMs);
+    const mismatchedFiles: string[] = [];
+    let completed = 0;
+    try {
+        const perFile = await mapWithConcurrency(fileDiffs, cfg.definitionConcurrency, async fd => {
+            const filePath = fd.newPath.replace(/^b\//, '');
+            const expected = fileContents.get(filePath);
+            if (expected === undefined) { return null; }
+
+            const found = await findFileInRoots(rootUris, filePath);
+            if (!found) { return null; }
+
+            const { rootUri, fileUri: localUri } = found;
+            const fileStart = Date.now();
+            try {
+                const actual = Buffer.from(await vscode.workspace.fs.readFile(localUri)).toString('utf-8');
+                if (normalizeEol(actual) !== normalizeEol(expected)) {
+                    mismatchedFiles.push(filePath);
+                }
+
+                const changedLines = getChangedLineNumbers(fd);
+                const [defs, refs] = await Promise.all([
+                    cfg.definitionDepth > 0
+                        ? gatherDefinitionsForChangedLines(
+                            localUri, changedLines, cfg.definitionDepth, cfg.maxCharsPerFile, executor, rootUri, cfg.definitionMode
+                        )
+                        : [],
+                    gatherImpactForChangedSymbols(localUri, changedLines, cfg.impactMaxReferences, executor, rootUri),
+                ]);
+                return { defs, refs };
+            } catch {
+                return null;
+            } finally {
+                completed++;
+                onProgress?.(vscode.l10n.t('Tracking definitions and impact ({0}/{1}): {2} ({3})', completed, fileDiffs.length, filePath, formatElapsed(fileStart)));
+            }
+        });
+
+        for (const result of perFile) {
+            if (!result) { continue; }
+            allDefinitions.push(...result.defs);
+            impacts.push(...result.refs);
+        }
+    } finally {
+        await worktree?.dispose();
+    }
+
+    if (mismatchedFiles.length > 0) {
+        notices.push(
+            vscode.l10n.t('The local files used for definition tracking do not match the compare side ({0}) ({1}). Changed line positions and definitions may not match the actual changes. Fetch the compare branch locally to track on a snapshot.',
+                compareLabel,
+                mismatchedFiles.slice(0, 5).join(', ') + (mismatchedFiles.length > 5 ? vscode.l10n.t(' and {0} more', mismatchedFiles.length - 5) : ''))
+        );
+    }
+    return {
+        definitions: allDefinitions,
+        impacts: impacts.slice(0, cfg.impactMaxReferences),
+        notices,
+        timeouts: executor.timeouts,
+    };
+}
 
-        const localUri = vscode.Uri.joinPath(workspaceFolders[0].uri, filePath);
+function formatElapsed(start: number): string {
+    return vscode.l10n.t('{0}s', ((Date.now() - start) / 1000).toFixed(1));
+}
+
+function normalizeEol(text: string): string {
+    return text.replace(/\r\n/g, '\n');
+}
+
+async function findFileInRoots(
+    rootUris: vscode.Uri[],
+    filePath: string
+): Promise<{ rootUri: vscode.Uri; fileUri: vscode.Uri } | null> {
+    for (const rootUri of rootUris) {
+        const fileUri = vscode.Uri.joinPath(rootUri, filePath);
         try {
-            await vscode.workspace.fs.stat(localUri);
-            const changedLines = getChangedLineNumbers(fd);
-            const defs = await gatherDefinitionsForChangedLines(
-                localUri, changedLines, cfg.definitionDepth, cfg.maxCharsPerFile
-            );
-            allDefinitions.push(...defs);
+            await vscode.workspace.fs.stat(fileUri);
+            return { rootUri, fileUri };
         } catch {
-            // Skip
+            // このフォルダには存在しない
         }
     }
-    return allDefinitions;
+    return null;
 }
 
 export function deactivate() { }
@@ -15,6 +15,39 @@ export interface FileDiff {
     unifiedDiff: string;
 }
 
+/** レビュー対象から外したファイルとその理由 */
+export interface SkippedFile {
+    path: string;
+    reason: string;
+}
+
+/**
+ * 差分取得の結果。fileContents は比較側のファイル内容（リポジトリ相対パスがキー）
+ */
+export interface FileDiffResult {
+    fileDiffs: FileDiff[];
+    fileContents: Map<string, string>;
+    skippedFiles: SkippedFile[];
+    /**
+     * ローカルGitから差分を取得した場合のリポジトリ。
+     * compareRef がなければ作業ツリー自体が比較側の内容を表す
+     */
+    localRepo?: { root: string; compareRef?: string };
+    /** 差分の基準にしたマージベースのコミット（見つからずブランチ先端どうしを比較した場合は undefined） */
+    mergeBase?: string;
+    /** 差分の取り方についてレビュー結果に表示する注意事項 */
+    notices: string[];
+}
+
+const SOURCE_EXT = /\.(ts|tsx|js|jsx|java|py|go|rb|php|cs|cpp|c|h|swift|kt|rs|vue|svelte|scala|dart)$/;
+
+/**
+ * レビュー対象とするソースファイルかを拡張子で判定する
+ */
+export function isSourceFile(filePath: string): boolean {
+    return SOURCE_EXT.test(filePath);
+}
+
 /**
  * 2つのファイル内容からunified diffを生成する
  */
@@ -81,3 +114,11 @@ export function getChangedLineNumbers(fileDiff: FileDiff): number[] {
     }
     return lines;
 }
+
+/**
+ * FileDiff が指すファイルのリポジトリ相対パスを返す（a/ b/ プレフィックスを除去、削除ファイルは旧パス）
+ */
+export function getFileDiffPath(fileDiff: FileDiff): string {
+    const p = fileDiff.newPath && fileDiff.newPath !== '/dev/null' ? fileDiff.newPath : fileDiff.oldPath;
+    return p.replace(/^[ab]\//, '');
+}
@@ -0,0 +1,138 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileDiffResult, generateUnifiedDiff, isSourceFile, parseDiff } from './diffAnalyzer';
+import { collectGitFileDiffs, getGitFileContent, parseGitNameOnlyOutput, runGit } from './localGit';
+
+/** git の空ツリーのオブジェクトID（親のないルートコミットの比較元に使う） */
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+/**
+ * Backlog の PR を介さずにローカルリポジトリからレビューする変更の指定
+ * - workingTree: HEAD と作業ツリー（未コミットの変更と未追跡ファイル）
+ * - staged: HEAD とインデックス（ステージ済みの変更）
+ * - commit: 1つのコミットとその親
+ * - range: from（含む）から to までのコミット範囲
+ */
+export type LocalChangeSpec =
+    | { kind: 'workingTree' }
+    | { kind: 'staged' }
+    | { kind: 'commit'; commit: string }
+    | { kind: 'range'; from: string; to: string };
+
+export interface GitCommitSummary {
+    sha: string;
+    subject: string;
+    author: string;
+    date: string;
+}
+
+/** 直近のコミット一覧（新しい順） */
+export async function listRecentCommits(repoRoot: string, count: number = 50): Promise<GitCommitSummary[]> {
+    const output = await runGit(repoRoot, ['log', `-n${count}`, '--format=%H%x1f%s%x1f%an%x1f%ad', '--date=short']);
+    return output
+        .split('\n')
+        .filter(Boolean)
+        .map(line => {
+            const [sha, subject, author, date] = line.split('\x1f');
+            return { sha, subject, author, date };
+        });
+}
+
+/** 変更指定の比較元・比較先を表示用のラベルにする */
+export function describeLocalChange(spec: LocalChangeSpec): { baseLabel: string; compareLabel: string } {
+    switch (spec.kind) {
+        case 'workingTree':
+            return { baseLabel: 'HEAD', compareLabel: vscode.l10n.t('Working tree') };
+        case 'staged':
+            return { baseLabel: 'HEAD', compareLabel: vscode.l10n.t('Index (staged)') };
+        case 'commit':
+            return { baseLabel: `${spec.commit.slice(0, 10)}^`, compareLabel: spec.commit.slice(0, 10) };
+        case 'range':
+            return { baseLabel: `${spec.from.slice(0, 10)}^`, compareLabel: spec.to.slice(0, 10) };
+    }
+}
+
+/**
+ * ローカルリポジトリの変更から FileDiff を生成する。作業ツリー・HEAD・インデックスは変更しない
+ */
+export async function generateFileDiffsFromLocalChanges(
+    repoRoot: string,
+    spec: LocalChangeSpec
+): Promise<FileDiffResult> {
+    switch (spec.kind) {
+        case 'workingTree': {
+            const result = await collectGitFileDiffs(
+                repoRoot,
+                ['HEAD'],
+                filePath => readWorkingTreeFile(repoRoot, filePath)
+            );
+            await appendUntrackedFiles(repoRoot, result);
+            return { ...result, localRepo: { root: repoRoot }, notices: [] };
+        }
+        case 'staged': {
+            const result = await collectGitFileDiffs(
+                repoRoot,
+                ['--cached', 'HEAD'],
+                filePath => getGitFileContent(repoRoot, '', filePath)
+            );
+            return { ...result, localRepo: { root: repoRoot }, notices: [] };
+        }
+        case 'commit': {
+            const parent = await resolveParent(repoRoot, spec.commit);
+            const result = await collectGitFileDiffs(
+                repoRoot,
+                [parent, spec.commit],
+                filePath => getGitFileContent(repoRoot, spec.commit, filePath)
+            );
+            return { ...result, localRepo: { root: repoRoot, compareRef: spec.commit }, notices: [] };
+        }
+        case 'range': {
+            const parent = await resolveParent(repoRoot, spec.from);
+            const result = await collectGitFileDiffs(
+                repoRoot,
+                [parent, spec.to],
+                filePath => getGitFileContent(repoRoot, spec.to, filePath)
+            );
+            return { ...result, localRepo: { root: repoRoot, compareRef: spec.to }, notices: [] };
+        }
+    }
+}
+
+async function resolveParent(repoRoot: string, commit: string): Promise<string> {
+    try {
+        const parent = await runGit(repoRoot, ['rev-parse', '--verify', `${commit}^`]);
+        return parent.trim();
+    } catch {
+        return EMPTY_TREE;
+    }
+}
+
+async function readWorkingTreeFile(repoRoot: string, filePath: string): Promise<string> {
+    try {
+        return await fs.promises.readFile(path.join(repoRoot, filePath), 'utf-8');
+    } catch {
+        return '';
+    }
+}
+
+/** git diff HEAD には現れない未追跡ファイルを新規ファイルとして追加する */
+async function appendUntrackedFiles(
+    repoRoot: string,
+    result: Pick<FileDiffResult, 'fileDiffs' | 'fileContents' | 'skippedFiles'>
+): Promise<void> {
+    const output = await runGit(repoRoot, ['ls-files', '--others', '--exclude-standard', '-z']).catch(() => '');
+    for (const filePath of parseGitNameOnlyOutput(output)) {
+        if (!isSourceFile(filePath)) {
+            result.skippedFiles.push({ path: filePath, reason: vscode.l10n.t('Not a source code file extension') });
+            continue;
+        }
+
+        const content = await readWorkingTreeFile(repoRoot, filePath);
+        const diffText = generateUnifiedDiff('', content, filePath, 'HEAD', vscode.l10n.t('Working tree'));
+        for (const fd of parseDiff(diffText)) {
+            result.fileDiffs.push({ ...fd, isNew: true, unifiedDiff: diffText });
+        }
+        result.fileContents.set(filePath, content);
+    }
+}
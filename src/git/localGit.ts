@@ -0,0 +1,214 @@
+import * as vscode from 'vscode';
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import { FileDiff, SkippedFile, getFileDiffPath, isSourceFile, parseDiff } from './diffAnalyzer';
+
+const execFileAsync = promisify(execFile);
+
+export interface TemporaryWorktree {
+    /** 作業ツリーのルートパス */
+    path: string;
+    /** 作業ツリーを削除する（ユーザーの作業コピーには影響しない） */
+    dispose(): Promise<void>;
+}
+
+export interface GitCommandOptions {
+    /** git を打ち切るまでの時間（ミリ秒。未指定なら打ち切らない） */
+    timeoutMs?: number;
+    /** 追加する環境変数 */
+    env?: Record<string, string>;
+}
+
+export async function runGit(repoPath: string, args: string[], options: GitCommandOptions = {}): Promise<string> {
+    const normalizedRepoPath = normalizeGitRepoPath(repoPath);
+    try {
+        const { stdout } = await execFileAsync('git', ['-C', normalizedRepoPath, ...args], {
+            maxBuffer: 20 * 1024 * 1024,
+            timeout: options.timeoutMs,
+            env: options.env ? { ...process.env, ...options.env } : undefined,
+        });
+        return stdout;
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        throw new Error(`git ${args.join(' ')} failed: ${msg}`);
+    }
+}
+
+function normalizeGitRepoPath(repoPath: string): string {
+    if (process.platform === 'win32') {
+        return path.win32.normalize(repoPath);
+    }
+    return repoPath;
+}
+
+export async function resolveGitRepoRoot(repoPath: string): Promise<string> {
+    const root = await runGit(repoPath, ['rev-parse', '--show-toplevel']);
+    return root.trim();
+}
+
+export async function getGitFileContent(repoPath: string, ref: string, filePath: string): Promise<string> {
+    try {
+        return await runGit(repoPath, ['show', `${ref}:${filePath}`]);
+    } catch {
+        return '';
+    }
+}
+
+function stripGitDiffPrefix(filePath: string): string {
+    return filePath.replace(/^[ab]\//, '');
+}
+
+export function normalizeGitFilePath(filePath: string): string {
+    return stripGitDiffPrefix(filePath.trim()).replace(/\\/g, '/');
+}
+
+export function parseGitNameOnlyOutput(output: string): string[] {
+    return output
+        .split('\0')
+        .map(s => normalizeGitFilePath(s))
+        .filter(Boolean);
+}
+
+function buildLocalGitRefCandidates(ref: string, preferRemote: boolean): string[] {
+    const r = ref.trim();
+    if (!r) { return []; }
+
+    // fetch 直後はローカルブランチより更新済みのリモート追跡ブランチを優先する
+    const branchName = r.replace(/^refs\/heads\//, '').replace(/^refs\/remotes\/origin\//, '').replace(/^origin\//, '');
+    const cands = new Set<string>(preferRemote ? [`refs/remotes/origin/${branchName}`, r] : [r]);
+
+    if (r.startsWith('refs/heads/')) {
+        const short = r.replace(/^refs\/heads\//, '');
+        cands.add(short);
+        cands.add(`origin/${short}`);
+        cands.add(`refs/remotes/origin/${short}`);
+    } else if (r.startsWith('refs/remotes/origin/')) {
+        const short = r.replace(/^refs\/remotes\/origin\//, '');
+        cands.add(short);
+        cands.add(`origin/${short}`);
+        cands.add(`refs/heads/${short}`);
+    } else if (r.startsWith('origin/')) {
+        const short = r.replace(/^origin\//, '');
+        cands.add(short);
+        cands.add(`refs/heads/${short}`);
+        cands.add(`refs/remotes/origin/${short}`);
+    } else {
+        cands.add(`refs/heads/${r}`);
+        cands.add(`origin/${r}`);
+        cands.add(`refs/remotes/origin/${r}`);
+    }
+
+    return [...cands];
+}
+
+export async function resolveLocalGitRef(repoPath: string, inputRef: string, preferRemote: boolean = false): Promise<string> {
+    const candidates = buildLocalGitRefCandidates(inputRef, preferRemote);
+    for (const c of candidates) {
+        try {
+            const resolved = await runGit(repoPath, ['rev-parse', '--verify', `${c}^{commit}`]);
+            return resolved.trim();
+        } catch {
+            // try next candidate
+        }
+    }
+
+    const branches = await runGit(repoPath, ['branch', '--all', '--list']).catch(() => '');
+    throw new Error(
+        `ブランチ参照を解決できませんでした: ${inputRef}` +
+        `\n候補: ${candidates.join(', ')}` +
+        (branches ? `\n\n利用可能なブランチ:\n${branches}` : '')
+    );
+}
+
+/** git fetch を打ち切るまでの時間（ミリ秒） */
+const FETCH_TIMEOUT_MS = 60000;
+
+/**
+ * リモート追跡ブランチだけを更新する。作業ツリー・HEAD・stash には一切触れない。
+ * リモートが応答しない場合や認証の入力を求められる場合に止まらないよう、入力を求めさせず FETCH_TIMEOUT_MS で打ち切る
+ */
+export async function fetchRemoteRefs(repoPath: string): Promise<void> {
+    await runGit(repoPath, ['fetch', '--all', '--prune', '--quiet'], {
+        timeoutMs: FETCH_TIMEOUT_MS,
+        env: { GIT_TERMINAL_PROMPT: '0', GCM_INTERACTIVE: 'never' },
+    });
+}
+
+/**
+ * 指定コミットを detached HEAD でチェックアウトした一時的な git worktree を作成する。
+ * 元の作業コピーのブランチ・未コミットの変更・stash はそのまま残る。
+ */
+export async function createTemporaryWorktree(repoPath: string, ref: string): Promise<TemporaryWorktree> {
+    const parent = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'backlog-review-'));
+    const worktreePath = path.join(parent, 'worktree');
+
+    try {
+        await runGit(repoPath, ['worktree', 'add', '--detach', worktreePath, ref]);
+    } catch (e) {
+        await fs.promises.rm(parent, { recursive: true, force: true });
+        throw e;
+    }
+
+    return {
+        path: worktreePath,
+        dispose: async () => {
+            await runGit(repoPath, ['worktree', 'remove', '--force', worktreePath])
+                .catch(() => runGit(repoPath, ['worktree', 'prune']))
+                .catch(() => undefined);
+            await fs.promises.rm(parent, { recursive: true, force: true }).catch(() => undefined);
+        },
+    };
+}
+
+/**
+ * 2つのコミットのマージベースを返す。共通の祖先がない場合は null
+ */
+export async function findMergeBase(repoPath: string, baseRef: string, compareRef: string): Promise<string | null> {
+    try {
+        const mergeBase = await runGit(repoPath, ['merge-base', baseRef, compareRef]);
+        return mergeBase.trim() || null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * git diff にリビジョン指定 (revisionArgs) を渡して変更ファイルを列挙し、
+ * ソースファイルごとの FileDiff と比較側の内容 (readContent で取得) を集める
+ */
+export async function collectGitFileDiffs(
+    repoRoot: string,
+    revisionArgs: string[],
+    readContent: (filePath: string) => Promise<string>
+): Promise<{ fileDiffs: FileDiff[]; fileContents: Map<string, string>; skippedFiles: SkippedFile[]; changedFiles: string[] }> {
+    const changed = await runGit(repoRoot, ['diff', '--name-only', '-z', '--find-renames', ...revisionArgs]);
+    const changedFiles = parseGitNameOnlyOutput(changed);
+
+    const skippedFiles: SkippedFile[] = changedFiles
+        .filter(f => !isSourceFile(f))
+        .map(f => ({ path: f, reason: vscode.l10n.t('Not a source code file extension') }));
+    const files = changedFiles.filter(f => isSourceFile(f));
+
+    const fileDiffs: FileDiff[] = [];
+    const fileContents = new Map<string, string>();
+
+    for (const filePath of files) {
+        const diffText = await runGit(repoRoot, ['diff', '--find-renames', '--unified=5', ...revisionArgs, '--', filePath]).catch(() => '');
+        if (!diffText.trim()) { continue; }
+
+        const parsed = parseDiff(diffText);
+        for (const fd of parsed) {
+            fileDiffs.push({ ...fd, unifiedDiff: diffText });
+
+            const normalizedPath = normalizeGitFilePath(getFileDiffPath(fd));
+            if (!fd.isDeleted && !fileContents.has(normalizedPath)) {
+                fileContents.set(normalizedPath, await readContent(normalizedPath));
+            }
+        }
+    }
+
+    return { fileDiffs, fileContents, skippedFiles, changedFiles };
+}
@@ -0,0 +1,103 @@
+import * as vscode from 'vscode';
+import { BacklogRepository } from '../backlog/backlogClient';
+import { resolveGitRepoRoot, runGit } from './localGit';
+
+/** workspaceState に保存する「Backlog リポジトリ → ローカルのリポジトリルート」の対応表のキー */
+const MAPPING_STATE_KEY = 'backlogReview.repositoryMappings';
+
+type RepositoryMappings = Record<string, string>;
+
+/**
+ * リモートURLを比較用に正規化する（https / ssh / scp 形式の違い、ユーザー名・ポート・.git を無視）
+ * 例: git@space.git.backlog.jp:/PROJ/repo.git → space.git.backlog.jp/proj/repo
+ */
+export function normalizeRemoteUrl(url: string): string {
+    let rest = url.trim();
+    const scheme = rest.match(/^[a-z][a-z0-9+.-]*:\/\//i);
+    if (scheme) {
+        rest = rest.slice(scheme[0].length);
+    } else {
+        // scp 形式 (user@host:path) はホストとパスの区切りの : を / にそろえる
+        rest = rest.replace(/^([^/:]+):/, '$1/');
+    }
+
+    rest = rest.replace(/^[^@/]*@/, '');          // ユーザー名・認証情報
+    rest = rest.replace(/^([^/:]+):\d+(?=\/)/, '$1'); // ポート
+    return rest
+        .replace(/\/+/g, '/')
+        .replace(/\/$/, '')
+        .replace(/\.git$/i, '')
+        .toLowerCase();
+}
+
+/** git remote -v のURL一覧（重複なし） */
+export async function listGitRemoteUrls(repoRoot: string): Promise<string[]> {
+    const output = await runGit(repoRoot, ['remote', '-v']);
+    const urls = output
+        .split('\n')
+        .map(line => line.split(/\s+/)[1])
+        .filter((url): url is string => !!url);
+    return [...new Set(urls)];
+}
+
+function mappingKey(repository: BacklogRepository): string {
+    return repository.httpUrl ? normalizeRemoteUrl(repository.httpUrl) : `id:${repository.id}`;
+}
+
+/**
+ * Backlog リポジトリに対応するローカルのリポジトリルートを返す。
+ * 保存済みの対応がなければ、ワークスペースフォルダの git remote と httpUrl / sshUrl を照合して自動で決定し保存する。
+ */
+export async function resolveWorkspaceRepository(
+    state: vscode.Memento,
+    repository: BacklogRepository
+): Promise<string | null> {
+    const key = mappingKey(repository);
+    const mappings = state.get<RepositoryMappings>(MAPPING_STATE_KEY, {});
+
+    const saved = mappings[key];
+    if (saved) {
+        try {
+            return await resolveGitRepoRoot(saved);
+        } catch {
+            // フォルダが移動・削除された場合は照合し直す
+        }
+    }
+
+    const expected = new Set(
+        [repository.httpUrl, repository.sshUrl]
+            .filter((url): url is string => !!url)
+            .map(normalizeRemoteUrl)
+    );
+    if (expected.size === 0) { return null; }
+
+    // マルチルートでは、アクティブなエディタのフォルダを優先して照合する
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    const activeFolder = activeUri ? vscode.workspace.getWorkspaceFolder(activeUri) : undefined;
+    const folders = [...(vscode.workspace.workspaceFolders ?? [])]
+        .sort((a, b) => Number(b === activeFolder) - Number(a === activeFolder));
+
+    for (const folder of folders) {
+        try {
+            const repoRoot = await resolveGitRepoRoot(folder.uri.fsPath);
+            const remotes = await listGitRemoteUrls(repoRoot);
+            if (remotes.some(url => expected.has(normalizeRemoteUrl(url)))) {
+                await rememberWorkspaceRepository(state, repository, repoRoot);
+                return repoRoot;
+            }
+        } catch {
+            // Gitリポジトリでないフォルダは対象外
+        }
+    }
+    return null;
+}
+
+/** 手動で選択したローカルリポジトリを Backlog リポジトリとの対応として保存する */
+export async function rememberWorkspaceRepository(
+    state: vscode.Memento,
+    repository: BacklogRepository,
+    repoRoot: string
+): Promise<void> {
+    const mappings = state.get<RepositoryMappings>(MAPPING_STATE_KEY, {});
+    await state.update(MAPPING_STATE_KEY, { ...mappings, [mappingKey(repository)]: repoRoot });
+}
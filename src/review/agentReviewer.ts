@@ -0,0 +1,127 @@
+import * as vscode from 'vscode';
+import { ReviewResult, completeReviewResult } from './aiReviewer';
+import { AgentSession, REVIEW_TOOL_NAMES, SESSION_INPUT_KEY, withAgentSession } from './agentTools';
+import { ReviewModel } from './modelProvider';
+import { ResponseFormat } from './promptBuilder';
+
+/** エージェントモードで実行したツール呼び出しの記録（レビューパネルに表示する） */
+export interface AgentToolCall {
+    tool: string;
+    /** 呼び出しの引数（JSON） */
+    input: string;
+    /** 結果の先頭部分（失敗した場合はエラーメッセージ） */
+    output: string;
+    failed: boolean;
+}
+
+/** 記録に残すツール結果の文字数 */
+const TOOL_OUTPUT_PREVIEW_CHARS = 200;
+
+/**
+ * モデルにツールでコンテキストを取得させながらレビューする。
+ * ツールの呼び出しを maxSteps 往復まで繰り返し、ツールを呼ばなくなった応答（上限に達した場合は最後の応答）をレビュー結果とする
+ */
+export async function runAgentReview(
+    model: ReviewModel,
+    prompt: string,
+    session: AgentSession,
+    maxSteps: number,
+    prNumber: number,
+    prTitle: string,
+    cancellationToken: vscode.CancellationToken,
+    onToolCall: (call: AgentToolCall) => void,
+    onChunk?: (chunk: string) => void,
+    responseFormat: ResponseFormat = 'markdown'
+): Promise<ReviewResult & { toolCalls: AgentToolCall[] }> {
+    const tools = vscode.lm.tools.filter(t => REVIEW_TOOL_NAMES.includes(t.name));
+    const agentPrompt = `${prompt}\n\n${buildToolSection(maxSteps)}`;
+    const messages = [vscode.LanguageModelChatMessage.User(agentPrompt)];
+    const toolCalls: AgentToolCall[] = [];
+
+    return withAgentSession(session, async sessionId => {
+        let fullText = '';
+        for (let step = 0; ; step++) {
+            const canCallTools = step < maxSteps && tools.length > 0;
+            const response = await model.sendRequest(messages, canCallTools ? { tools } : {}, cancellationToken);
+
+            fullText = '';
+            const calls: vscode.LanguageModelToolCallPart[] = [];
+            for await (const part of response.stream) {
+                if (part instanceof vscode.LanguageModelTextPart) {
+                    fullText += part.value;
+                    onChunk?.(part.value);
+                } else if (part instanceof vscode.LanguageModelToolCallPart) {
+                    calls.push(part);
+                }
+            }
+            if (calls.length === 0 || !canCallTools) { break; }
+
+            messages.push(vscode.LanguageModelChatMessage.Assistant([
+                ...(fullText ? [new vscode.LanguageModelTextPart(fullText)] : []),
+                ...calls,
+            ]));
+            const results: (vscode.LanguageModelToolResultPart | vscode.LanguageModelTextPart)[] = [];
+            for (const call of calls) {
+                const { content, record } = await invokeTool(call, sessionId, cancellationToken);
+                toolCalls.push(record);
+                onToolCall(record);
+                results.push(new vscode.LanguageModelToolResultPart(call.callId, content));
+            }
+            if (step + 1 >= maxSteps) {
+                results.push(new vscode.LanguageModelTextPart(
+                    'ツールの呼び出し回数の上限に達しました。これ以上ツールは使えません。ここまでに得た情報で、Output Format に従ってレビュー結果を出力してください。'
+                ));
+            }
+            messages.push(vscode.LanguageModelChatMessage.User(results));
+            onChunk?.('\n\n');
+        }
+
+        const result = await completeReviewResult(
+            model, messages, fullText, agentPrompt, prNumber, prTitle, cancellationToken, onChunk, responseFormat
+        );
+        return { ...result, toolCalls };
+    });
+}
+
+/** ツールを呼び出す。入力にレビューのセッション ID を加え、ツールがこのレビューの比較側を参照するようにする */
+async function invokeTool(
+    call: vscode.LanguageModelToolCallPart,
+    sessionId: string,
+    cancellationToken: vscode.CancellationToken
+): Promise<{ content: unknown[]; record: AgentToolCall }> {
+    const input = JSON.stringify(call.input);
+    try {
+        const result = await vscode.lm.invokeTool(
+            call.name,
+            { input: { ...call.input, [SESSION_INPUT_KEY]: sessionId }, toolInvocationToken: undefined },
+            cancellationToken
+        );
+        const text = result.content
+            .map(part => part instanceof vscode.LanguageModelTextPart ? part.value : '')
+            .join('');
+        return {
+            content: result.content,
+            record: { tool: call.name, input, output: text.slice(0, TOOL_OUTPUT_PREVIEW_CHARS), failed: false },
+        };
+    } catch (e) {
+        if (cancellationToken.isCancellationRequested) { throw new vscode.CancellationError(); }
+        // ツールのエラーはモデルに伝え、別の方法で情報を取らせる
+        const message = e instanceof Error ? e.message : String(e);
+        return {
+            content: [new vscode.LanguageModelTextPart(`エラー: ${message}`)],
+            record: { tool: call.name, input, output: message, failed: true },
+        };
+    }
+}
+
+function buildToolSection(maxSteps: number): string {
+    return `# Tools
+このプロンプトには定義元・呼び出し元などのコンテキストを含めていません。指摘の根拠を確かめるために必要な情報は、次のツールで取得してください。
+- **backlogReview_readFile**: 比較ブランチ側のファイルを行番号付きで読む
+- **backlogReview_searchRepository**: 比較ブランチ側のリポジトリを文字列・正規表現で検索する
+- **backlogReview_getDefinition**: シンボルの定義元を取得する
+- **backlogReview_getReferences**: シンボルの参照箇所（呼び出し元）を取得する
+- **backlogReview_getIssue**: Backlog の課題（仕様・コメント）を取得する
+
+ツールの呼び出しは最大 ${maxSteps} 往復までです。必要な情報がそろったら、ツールを呼ばずに Output Format に従ってレビュー結果だけを出力してください。`;
+}
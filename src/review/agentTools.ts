@@ -0,0 +1,338 @@
+import * as vscode from 'vscode';
+import { BacklogClient } from '../backlog/backlogClient';
+import { getConfig } from '../config';
+import { TemporaryWorktree, createTemporaryWorktree, runGit } from '../git/localGit';
+import { findDefinitionBlock, toRelativePath } from './definitionTracker';
+import { ProviderExecutor } from './providerExecutor';
+
+/** エージェントモードで使うツール（package.json の languageModelTools と同じ名前） */
+export const REVIEW_TOOL_NAMES = [
+    'backlogReview_readFile',
+    'backlogReview_searchRepository',
+    'backlogReview_getDefinition',
+    'backlogReview_getReferences',
+    'backlogReview_getIssue',
+];
+
+/** ツールの結果として返す最大文字数（これを超える分は切り詰めてその旨を添える） */
+const MAX_TOOL_RESULT_CHARS = 12000;
+const MAX_READ_LINES = 400;
+const MAX_SEARCH_RESULTS = 50;
+const MAX_DEFINITIONS = 3;
+const MAX_REFERENCES = 30;
+
+/**
+ * ツールが参照するレビュー対象の状態。
+ * レビュー中は比較側のスナップショットを、それ以外（Copilot Chat 等から呼ばれた場合）はワークスペースを参照する
+ */
+export interface AgentSession {
+    /** 比較側のファイルを git で読むリポジトリのルート */
+    repoRoot?: string;
+    /** 比較側のコミット（undefined なら作業ツリーが比較側の内容） */
+    compareRef?: string;
+    /** 言語機能（定義元・参照）を呼び出すファイルのルート（一時worktree・リポジトリ・ワークスペースフォルダ） */
+    snapshotRoot?: vscode.Uri;
+    /** 差分の取得時に読み込んだ比較側のファイル内容 */
+    fileContents: Map<string, string>;
+    client?: BacklogClient;
+    executor: ProviderExecutor;
+}
+
+/**
+ * レビュー中のセッション。複数のレビュー（レビューパネルとチャットなど）が同時に実行されても混ざらないよう、
+ * レビューごとの ID をツールの入力の SESSION_INPUT_KEY で渡して引く
+ */
+const activeSessions = new Map<string, AgentSession>();
+let sessionCount = 0;
+
+/** ツールの入力に加える、レビューのセッション ID のキー */
+export const SESSION_INPUT_KEY = 'backlogReviewSessionId';
+
+/**
+ * レビュー対象の比較側を参照するセッションを作る。
+ * 比較コミットがあれば一時worktreeに展開し、dispose で削除する
+ */
+export async function openAgentSession(
+    localRepo: { root: string; compareRef?: string } | undefined,
+    fileContents: Map<string, string>,
+    cfg: ReturnType<typeof getConfig>
+): Promise<AgentSession & { dispose(): Promise<void> }> {
+    let worktree: TemporaryWorktree | undefined;
+    if (localRepo?.compareRef) {
+        try {
+            worktree = await createTemporaryWorktree(localRepo.root, localRepo.compareRef);
+        } catch {
+            // worktreeを作れない場合は対応するローカルリポジトリのファイルで言語機能を呼び出す
+        }
+    }
+
+    const snapshotRoot = worktree
+        ? vscode.Uri.file(worktree.path)
+        : localRepo
+            ? vscode.Uri.file(localRepo.root)
+            : vscode.workspace.workspaceFolders?.[0]?.uri;
+    return {
+        repoRoot: localRepo?.root,
+        compareRef: localRepo?.compareRef,
+        snapshotRoot,
+        fileContents,
+        client: createClient(cfg),
+        executor: new ProviderExecutor(cfg.definitionConcurrency, cfg.definitionTimeoutMs),
+        dispose: async () => { await worktree?.dispose(); },
+    };
+}
+
+/**
+ * fn の実行中だけ session を登録する。fn に渡す ID をツールの入力に加えると、そのツールは session を参照する
+ */
+export async function withAgentSession<T>(session: AgentSession, fn: (sessionId: string) => Promise<T>): Promise<T> {
+    const sessionId = `review-${++sessionCount}`;
+    activeSessions.set(sessionId, session);
+    try {
+        return await fn(sessionId);
+    } finally {
+        activeSessions.delete(sessionId);
+    }
+}
+
+/**
+ * レビュー用のツールを vscode.lm に登録する
+ */
+export function registerReviewTools(): vscode.Disposable[] {
+    return [
+        vscode.lm.registerTool('backlogReview_readFile', createTool(readFile)),
+        vscode.lm.registerTool('backlogReview_searchRepository', createTool(searchRepository)),
+        vscode.lm.registerTool('backlogReview_getDefinition', createTool(getDefinition)),
+        vscode.lm.registerTool('backlogReview_getReferences', createTool(getReferences)),
+        vscode.lm.registerTool('backlogReview_getIssue', createTool(getIssue)),
+    ];
+}
+
+function createTool<T>(
+    run: (session: AgentSession, input: T, token: vscode.CancellationToken) => Promise<string>
+): vscode.LanguageModelTool<T> {
+    return {
+        invoke: async (options, token) => {
+            const sessionId = (options.input as { [SESSION_INPUT_KEY]?: unknown })[SESSION_INPUT_KEY];
+            const session = typeof sessionId === 'string' ? activeSessions.get(sessionId) : undefined;
+            const text = await run(session ?? createWorkspaceSession(), options.input, token);
+            const truncated = text.length > MAX_TOOL_RESULT_CHARS
+                ? `${text.slice(0, MAX_TOOL_RESULT_CHARS)}\n...（${text.length - MAX_TOOL_RESULT_CHARS} 文字省略。範囲を絞って再度呼び出してください）`
+                : text;
+            return new vscode.LanguageModelToolResult([new vscode.LanguageModelTextPart(truncated)]);
+        },
+    };
+}
+
+/** レビュー中でないときは、最初のワークスペースフォルダの作業ツリーを参照する */
+function createWorkspaceSession(): AgentSession {
+    const cfg = getConfig();
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    return {
+        repoRoot: folder?.uri.fsPath,
+        snapshotRoot: folder?.uri,
+        fileContents: new Map(),
+        client: createClient(cfg),
+        executor: new ProviderExecutor(cfg.definitionConcurrency, cfg.definitionTimeoutMs),
+    };
+}
+
+function createClient(cfg: ReturnType<typeof getConfig>): BacklogClient | undefined {
+    return cfg.spaceKey && cfg.apiKey ? new BacklogClient(cfg.spaceKey, cfg.apiKey, cfg.domain) : undefined;
+}
+
+// ─── ツールの実装 ──────────────────────────────────────────────
+
+interface ReadFileInput {
+    path: string;
+    startLine?: number;
+    endLine?: number;
+}
+
+async function readFile(session: AgentSession, input: ReadFileInput): Promise<string> {
+    const filePath = normalizeToolPath(input.path);
+    const content = await readCompareFile(session, filePath);
+    if (content === undefined) {
+        throw new Error(`ファイルが見つかりません: ${filePath}`);
+    }
+
+    const lines = content.split('\n');
+    const start = Math.max(1, input.startLine ?? 1);
+    if (start > lines.length) {
+        throw new Error(`${filePath} は ${lines.length} 行しかありません`);
+    }
+    const end = Math.min(lines.length, input.endLine ?? start + MAX_READ_LINES - 1, start + MAX_READ_LINES - 1);
+    const width = String(end).length;
+    const numbered: string[] = [];
+    for (let i = start; i <= end; i++) {
+        numbered.push(`${String(i).padStart(width)} | ${lines[i - 1]}`);
+    }
+    const rest = end < lines.length ? `\n...（全 ${lines.length} 行。続きは startLine に ${end + 1} を指定してください）` : '';
+    return `${filePath}:${start}-${end}\n${numbered.join('\n')}${rest}`;
+}
+
+async function readCompareFile(session: AgentSession, filePath: string): Promise<string | undefined> {
+    const loaded = session.fileContents.get(filePath);
+    if (loaded !== undefined) { return loaded; }
+
+    if (session.repoRoot && session.compareRef) {
+        try {
+            return await runGit(session.repoRoot, ['show', `${session.compareRef}:${filePath}`]);
+        } catch {
+            return undefined;
+        }
+    }
+    if (session.snapshotRoot) {
+        try {
+            const bytes = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(session.snapshotRoot, filePath));
+            return Buffer.from(bytes).toString('utf-8');
+        } catch {
+            return undefined;
+        }
+    }
+    return undefined;
+}
+
+interface SearchInput {
+    query: string;
+    isRegex?: boolean;
+    path?: string;
+}
+
+async function searchRepository(session: AgentSession, input: SearchInput): Promise<string> {
+    const root = session.repoRoot ?? session.snapshotRoot?.fsPath;
+    if (!root) {
+        throw new Error('検索できるリポジトリがありません');
+    }
+
+    const args = ['grep', '-n', '-I', '--no-color', input.isRegex ? '-E' : '-F', '-e', input.query];
+    if (session.compareRef) { args.push(session.compareRef); }
+    args.push('--');
+    if (input.path) { args.push(normalizeToolPath(input.path)); }
+
+    let output: string;
+    try {
+        output = await runGit(root, args);
+    } catch {
+        // 一致がない場合も git grep は失敗として終了する
+        return `「${input.query}」に一致する箇所は見つかりませんでした`;
+    }
+
+    const prefix = session.compareRef ? `${session.compareRef}:` : '';
+    const matches = output.split('\n').filter(l => l.trim());
+    const shown = matches.slice(0, MAX_SEARCH_RESULTS).map(l => {
+        const line = l.startsWith(prefix) ? l.slice(prefix.length) : l;
+        return line.length > 200 ? `${line.slice(0, 200)}...` : line;
+    });
+    const rest = matches.length > shown.length ? `\n...（他 ${matches.length - shown.length} 件。path で絞り込んでください）` : '';
+    return shown.join('\n') + rest;
+}
+
+interface SymbolInput {
+    path: string;
+    line: number;
+    symbol: string;
+}
+
+async function getDefinition(session: AgentSession, input: SymbolInput): Promise<string> {
+    const { doc, position } = await locateSymbol(session, input);
+    const locations = await session.executor.execute<(vscode.Location | vscode.LocationLink)[]>(
+        'vscode.executeDefinitionProvider', doc.uri, position
+    ) ?? [];
+    if (locations.length === 0) {
+        return `${input.symbol} の定義元は見つかりませんでした`;
+    }
+
+    const sections: string[] = [];
+    for (const loc of locations.slice(0, MAX_DEFINITIONS)) {
+        const uri = 'targetUri' in loc ? loc.targetUri : loc.uri;
+        const range = 'targetUri' in loc ? (loc.targetSelectionRange ?? loc.targetRange) : loc.range;
+        const targetDoc = await vscode.workspace.openTextDocument(uri);
+        const block = await findDefinitionBlock(targetDoc, range.start, MAX_TOOL_RESULT_CHARS / MAX_DEFINITIONS, session.executor);
+        sections.push(`${toRelativePath(uri, session.snapshotRoot)}:${block.startLine}-${block.endLine}\n\`\`\`${targetDoc.languageId}\n${block.content}\n\`\`\``);
+    }
+    return sections.join('\n\n');
+}
+
+async function getReferences(session: AgentSession, input: SymbolInput): Promise<string> {
+    const { doc, position } = await locateSymbol(session, input);
+    const locations = await session.executor.execute<vscode.Location[]>(
+        'vscode.executeReferenceProvider', doc.uri, position
+    ) ?? [];
+    if (locations.length === 0) {
+        return `${input.symbol} の参照は見つかりませんでした`;
+    }
+
+    const lines: string[] = [];
+    const documents = new Map<string, vscode.TextDocument>();
+    for (const loc of locations.slice(0, MAX_REFERENCES)) {
+        const key = loc.uri.toString();
+        const refDoc = documents.get(key) ?? await vscode.workspace.openTextDocument(loc.uri);
+        documents.set(key, refDoc);
+        lines.push(`${toRelativePath(loc.uri, session.snapshotRoot)}:${loc.range.start.line + 1}: ${refDoc.lineAt(loc.range.start.line).text.trim()}`);
+    }
+    const rest = locations.length > lines.length ? `\n...（他 ${locations.length - lines.length} 件）` : '';
+    return lines.join('\n') + rest;
+}
+
+/** path の line 行目（見つからなければファイル全体）から symbol の位置を探す */
+async function locateSymbol(
+    session: AgentSession,
+    input: SymbolInput
+): Promise<{ doc: vscode.TextDocument; position: vscode.Position }> {
+    if (!session.snapshotRoot) {
+        throw new Error('言語機能を呼び出せるリポジトリがありません');
+    }
+    const filePath = normalizeToolPath(input.path);
+    let doc: vscode.TextDocument;
+    try {
+        doc = await vscode.workspace.openTextDocument(vscode.Uri.joinPath(session.snapshotRoot, filePath));
+    } catch {
+        throw new Error(`ファイルが見つかりません: ${filePath}`);
+    }
+
+    const pattern = new RegExp(`(?<![\\w$])${input.symbol.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\w$])`);
+    const lineIndex = Math.min(Math.max(input.line - 1, 0), doc.lineCount - 1);
+    const onLine = pattern.exec(doc.lineAt(lineIndex).text);
+    if (onLine) {
+        return { doc, position: new vscode.Position(lineIndex, onLine.index) };
+    }
+
+    const anywhere = pattern.exec(doc.getText());
+    if (!anywhere) {
+        throw new Error(`${filePath} に ${input.symbol} が見つかりません`);
+    }
+    return { doc, position: doc.positionAt(anywhere.index) };
+}
+
+interface IssueInput {
+    issueKey: string;
+}
+
+async function getIssue(session: AgentSession, input: IssueInput): Promise<string> {
+    if (!session.client) {
+        throw new Error('Backlog のスペースキーと API キーが設定されていません');
+    }
+    const issueKey = input.issueKey.trim().toUpperCase();
+    const [issue, comments] = await Promise.all([
+        session.client.getIssue(issueKey),
+        session.client.getIssueComments(issueKey, 10).catch(() => []),
+    ]);
+
+    const commentLines = comments
+        .filter(c => c.content?.trim())
+        .map(c => `- ${c.createdUser.name} (${c.created}): ${c.content.trim()}`);
+    return `# ${issue.issueKey} ${issue.summary}
+状態: ${issue.status.name} / 担当者: ${issue.assignee?.name ?? '未設定'}
+
+${issue.description || '（説明なし）'}` + (commentLines.length > 0 ? `\n\n## コメント\n${commentLines.join('\n')}` : '');
+}
+
+/** モデルが指定したパスをリポジトリのルートからの相対パスにそろえる（ルートの外は指定させない） */
+function normalizeToolPath(input: string): string {
+    const normalized = input.trim().replace(/\\/g, '/').replace(/^\.?\/+/, '').replace(/^[ab]\//, '');
+    if (!normalized || normalized.split('/').includes('..')) {
+        throw new Error(`リポジトリ内の相対パスを指定してください: ${input}`);
+    }
+    return normalized;
+}
@@ -1,56 +1,97 @@
 import * as vscode from 'vscode';
+import { ReviewModel } from './modelProvider';
+import { OmittedContent, ResponseFormat } from './promptBuilder';
+import { StructuredReview, parseStructuredReview } from './reviewFindings';
 
 export interface ReviewResult {
+    /** モデルの応答そのまま（構造化モードでは JSON） */
     rawMarkdown: string;
     model: string;
     prNumber: number;
     prTitle: string;
+    omittedContent?: OmittedContent[];
+    /** 最後に送ったプロンプト（フォローアップの会話の履歴に使う） */
+    prompt?: string;
+    /** 構造化モードで、スキーマに沿って解析できた指摘 */
+    structured?: StructuredReview;
+    /** 構造化モードで、再試行しても解析できなかった理由（Markdown として表示する） */
+    structuredError?: string;
 }
 
 /**
- * GitHub Copilot (vscode.lm API) を使ってコードレビューを実行する
+ * 選択されたモデルでコードレビューを実行する
  */
-export async function runAiReview(
+export async function runWithModel(
+    model: ReviewModel,
     prompt: string,
-    preferredModel: string,
     prNumber: number,
     prTitle: string,
     cancellationToken: vscode.CancellationToken,
-    onChunk?: (chunk: string) => void
+    onChunk?: (chunk: string) => void,
+    responseFormat: ResponseFormat = 'markdown'
 ): Promise<ReviewResult> {
-    // 利用可能なCopilotモデルを取得
-    const models = await vscode.lm.selectChatModels({
-        vendor: 'copilot',
-        family: preferredModel,
-    });
-
-    if (!models || models.length === 0) {
-        // フォールバック: familyを指定せずに取得
-        const fallbackModels = await vscode.lm.selectChatModels({ vendor: 'copilot' });
-        if (!fallbackModels || fallbackModels.length === 0) {
-            throw new Error(
-                'GitHub Copilotのモデルが利用できません。\n' +
-                'GitHub Copilot拡張機能がインストール・有効化されているか確認してください。'
-            );
-        }
-        return runWithModel(fallbackModels[0], prompt, prNumber, prTitle, cancellationToken, onChunk);
-    }
+    const messages = [
+        vscode.LanguageModelChatMessage.User(prompt),
+    ];
 
-    return runWithModel(models[0], prompt, prNumber, prTitle, cancellationToken, onChunk);
+    const fullText = await collectResponse(model, messages, cancellationToken, onChunk);
+    return completeReviewResult(model, messages, fullText, prompt, prNumber, prTitle, cancellationToken, onChunk, responseFormat);
 }
 
-async function runWithModel(
-    model: vscode.LanguageModelChat,
+/**
+ * モデルの最終応答から ReviewResult を作る。
+ * 構造化モードでは応答を解析し、解析できなければ messages の続きとしてエラーを伝えて1回だけ出し直させる
+ */
+export async function completeReviewResult(
+    model: ReviewModel,
+    messages: vscode.LanguageModelChatMessage[],
+    fullText: string,
     prompt: string,
     prNumber: number,
     prTitle: string,
     cancellationToken: vscode.CancellationToken,
-    onChunk?: (chunk: string) => void
+    onChunk?: (chunk: string) => void,
+    responseFormat: ResponseFormat = 'markdown'
 ): Promise<ReviewResult> {
-    const messages = [
-        vscode.LanguageModelChatMessage.User(prompt),
-    ];
+    const result: ReviewResult = {
+        rawMarkdown: fullText,
+        model: model.name,
+        prNumber,
+        prTitle,
+        prompt,
+    };
+    if (responseFormat !== 'structured') { return result; }
+
+    let parsed = parseStructuredReview(fullText);
+    if (!parsed.ok) {
+        // 解析エラーを伝えて1回だけ出し直させる
+        onChunk?.('\n\n');
+        const retryText = await collectResponse(model, [
+            ...messages,
+            vscode.LanguageModelChatMessage.Assistant(fullText),
+            vscode.LanguageModelChatMessage.User(
+                `出力がスキーマに従っていないため解析できませんでした。\n${parsed.error}\n\n` +
+                '指摘の内容は変えずに、Output Format の JSON Schema に従う JSON オブジェクト1つだけを出力し直してください。'
+            ),
+        ], cancellationToken, onChunk);
+        const retried = parseStructuredReview(retryText);
+        if (retried.ok) {
+            fullText = retryText;
+        }
+        parsed = retried.ok ? retried : parsed;
+    }
+
+    return parsed.ok
+        ? { ...result, rawMarkdown: fullText, structured: parsed.review }
+        : { ...result, structuredError: parsed.error };
+}
 
+export async function collectResponse(
+    model: ReviewModel,
+    messages: vscode.LanguageModelChatMessage[],
+    cancellationToken: vscode.CancellationToken,
+    onChunk?: (chunk: string) => void
+): Promise<string> {
     const response = await model.sendRequest(messages, {}, cancellationToken);
 
     let fullText = '';
@@ -58,11 +99,5 @@ async function runWithModel(
         fullText += chunk;
         onChunk?.(chunk);
     }
-
-    return {
-        rawMarkdown: fullText,
-        model: model.name,
-        prNumber,
-        prTitle,
-    };
+    return fullText;
 }
@@ -0,0 +1,207 @@
+import * as vscode from 'vscode';
+import { FileDiff, getFileDiffPath } from '../git/diffAnalyzer';
+import {
+    OmittedContent,
+    ReviewInput,
+    buildAggregationPrompt,
+    buildDefinitionSection,
+    buildDiffSection,
+    buildFileSection,
+    buildImpactSection,
+    buildReviewPrompt,
+} from './promptBuilder';
+import { ReviewResult, runWithModel } from './aiReviewer';
+import { ReviewModel } from './modelProvider';
+import { getPromptBudget, packReviewPrompt } from './promptPacker';
+
+export type ReviewMode = 'auto' | 'single' | 'chunked';
+
+/**
+ * 設定とプロンプトのトークン数から、分割レビューにすべきかを判定する
+ */
+export async function needsChunkedReview(
+    input: ReviewInput,
+    model: ReviewModel,
+    mode: ReviewMode,
+    cancellationToken: vscode.CancellationToken
+): Promise<boolean> {
+    if (mode === 'single' || input.fileDiffs.length <= 1) { return false; }
+    if (mode === 'chunked') { return true; }
+
+    const tokens = await model.countTokens(buildReviewPrompt(input), cancellationToken);
+    return tokens > getPromptBudget(model);
+}
+
+/**
+ * 変更ファイルをモデルのトークン予算に収まるバッチに分割する。
+ * ファイルごとに、そのファイルが増やすセクション（内容・定義元・影響範囲・差分）だけを1回数えて合計する。
+ * 1ファイルだけで予算を超える場合はそのファイル単独のバッチにする。
+ */
+export async function splitIntoBatches(
+    input: ReviewInput,
+    model: ReviewModel,
+    cancellationToken: vscode.CancellationToken
+): Promise<ReviewInput[]> {
+    const budget = getPromptBudget(model);
+    const baseTokens = await model.countTokens(buildReviewPrompt(subsetInput(input, [])), cancellationToken);
+    const available = Math.max(budget - baseTokens, 1);
+
+    const batches: FileDiff[][] = [];
+    let current: FileDiff[] = [];
+    let used = 0;
+
+    for (const fd of input.fileDiffs) {
+        const cost = await model.countTokens(buildFileSections(subsetInput(input, [fd])), cancellationToken);
+        if (current.length > 0 && used + cost > available) {
+            batches.push(current);
+            current = [];
+            used = 0;
+        }
+        current.push(fd);
+        used += cost;
+    }
+    if (current.length > 0) { batches.push(current); }
+
+    return batches.map((fileDiffs, i) => ({
+        ...subsetInput(input, fileDiffs),
+        batch: { index: i + 1, total: batches.length },
+    }));
+}
+
+/**
+ * バッチごとにレビューを実行し、最後に指摘を統合するパスを実行する（map-reduce）
+ */
+export async function runChunkedReview(
+    input: ReviewInput,
+    model: ReviewModel,
+    prNumber: number,
+    prTitle: string,
+    cancellationToken: vscode.CancellationToken,
+    onProgress?: (message: string) => void,
+    onChunk?: (chunk: string) => void
+): Promise<ReviewResult> {
+    onProgress?.(vscode.l10n.t('Splitting the changed files into batches...'));
+    const batches = await splitIntoBatches(input, model, cancellationToken);
+
+    if (batches.length === 1) {
+        onProgress?.(vscode.l10n.t('Reviewing in 1 batch ({0} files)...', input.fileDiffs.length));
+        const packed = await packReviewPrompt(input, model, cancellationToken);
+        const result = await runWithModel(model, packed.prompt, prNumber, prTitle, cancellationToken, onChunk, input.responseFormat);
+        return { ...result, omittedContent: packed.omittedContent };
+    }
+
+    const batchReviews: string[] = [];
+    const omittedContent: OmittedContent[] = [];
+    for (const batch of batches) {
+        const { index, total } = batch.batch!;
+        onProgress?.(vscode.l10n.t('Reviewing batch {0}/{1} ({2} files)', index, total, batch.fileDiffs.length));
+        onChunk?.(`\n\n===== ${vscode.l10n.t('Batch {0}/{1}', index, total)} =====\n\n`);
+        const packed = await packReviewPrompt(batch, model, cancellationToken);
+        omittedContent.push(...packed.omittedContent);
+        const result = await runWithModel(
+            model, packed.prompt, prNumber, prTitle, cancellationToken, onChunk, input.responseFormat
+        );
+        batchReviews.push(result.rawMarkdown);
+        onProgress?.(vscode.l10n.t('Finished batch {0}/{1}', index, total));
+    }
+
+    const reviews = await reduceBatchReviews(input, batchReviews, model, prNumber, prTitle, cancellationToken, onProgress);
+    onProgress?.(vscode.l10n.t('Merging the findings of {0} batches...', batches.length));
+    onChunk?.(`\n\n===== ${vscode.l10n.t('Merged report')} =====\n\n`);
+    const result = await runWithModel(
+        model, buildAggregationPrompt(input, reviews), prNumber, prTitle, cancellationToken, onChunk, input.responseFormat
+    );
+    return { ...result, omittedContent };
+}
+
+/**
+ * 統合プロンプトがトークン予算に収まるまで、バッチの結果を予算に収まるグループごとに中間統合する（階層的な reduce）。
+ * グループにするため、予算の半分を超える結果は末尾を切り詰める
+ */
+async function reduceBatchReviews(
+    input: ReviewInput,
+    batchReviews: string[],
+    model: ReviewModel,
+    prNumber: number,
+    prTitle: string,
+    cancellationToken: vscode.CancellationToken,
+    onProgress?: (message: string) => void
+): Promise<string[]> {
+    const count = (text: string) => model.countTokens(text, cancellationToken);
+    const budget = getPromptBudget(model);
+    const available = Math.max(budget - await count(buildAggregationPrompt(input, [])), 1);
+
+    let reviews = batchReviews;
+    for (let level = 1; await count(buildAggregationPrompt(input, reviews)) > budget; level++) {
+        if (reviews.length === 1) {
+            return [truncateToTokens(reviews[0], await count(reviews[0]), available)];
+        }
+        // 各結果は1回だけ数え、合計でグループに分ける
+        const groups: string[][] = [];
+        let current: string[] = [];
+        let used = 0;
+        for (const review of reviews) {
+            const cost = await count(review);
+            const limit = Math.floor(available / 2);
+            const fitted = cost > limit ? truncateToTokens(review, cost, limit) : review;
+            const fittedCost = Math.min(cost, limit);
+            if (current.length > 0 && used + fittedCost > available) {
+                groups.push(current);
+                current = [];
+                used = 0;
+            }
+            current.push(fitted);
+            used += fittedCost;
+        }
+        if (current.length > 0) { groups.push(current); }
+
+        const reduced: string[] = [];
+        for (const [i, group] of groups.entries()) {
+            if (group.length === 1) {
+                reduced.push(group[0]);
+                continue;
+            }
+            onProgress?.(vscode.l10n.t('Merging batch findings in stages (stage {0}: {1}/{2})', level, i + 1, groups.length));
+            const result = await runWithModel(
+                model, buildAggregationPrompt(input, group), prNumber, prTitle, cancellationToken, undefined, input.responseFormat
+            );
+            reduced.push(result.rawMarkdown);
+        }
+        reviews = reduced;
+    }
+    return reviews;
+}
+
+/** トークン数と文字数の比から、text を maxTokens 程度に収まるよう末尾を切り詰める */
+function truncateToTokens(text: string, tokens: number, maxTokens: number): string {
+    const chars = Math.floor(text.length * maxTokens / tokens * 0.9);
+    return `${text.slice(0, chars)}\n\n（トークン上限のため、このレビュー結果の以降は省略しました）`;
+}
+
+/** ファイルに関係するセクション（内容・定義元・影響範囲・差分）だけを並べた、トークン数の見積もり用のテキスト */
+function buildFileSections(input: ReviewInput): string {
+    return [
+        buildFileSection(input.fileDiffs, input.fileContents, input.maxCharsPerFile, input.excerptContextLines),
+        buildDefinitionSection(input.definitions),
+        buildImpactSection(input.impacts),
+        buildDiffSection(input.fileDiffs),
+    ].join('\n');
+}
+
+/** 指定したファイルに関係する内容・定義だけを残した ReviewInput を作る */
+function subsetInput(input: ReviewInput, fileDiffs: FileDiff[]): ReviewInput {
+    const paths = new Set(fileDiffs.map(fd => getFileDiffPath(fd)));
+    const fileContents = new Map([...input.fileContents].filter(([p]) => paths.has(p)));
+    const definitions = input.definitions.filter(d => paths.has(d.originFile));
+    const impacts = input.impacts.filter(i => paths.has(i.originFile));
+
+    return {
+        ...input,
+        fileDiffs,
+        fileContents,
+        definitions,
+        impacts,
+        skippedFiles: [],
+        batch: undefined,
+    };
+}
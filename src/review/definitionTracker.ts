@@ -1,138 +1,475 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import * as crypto from 'crypto';
+import { ProviderExecutor } from './providerExecutor';
+
+/**
+ * 定義元の収集方法
+ * - full: 定義元の関数・クラスのブロック全体を収集し、再帰的に辿る
+ * - signature: ホバーと型定義からシグネチャと型の形だけを収集する（再帰しない）
+ */
+export type DefinitionMode = 'full' | 'signature';
+
+/** signature モードで型定義の内容を含める最大文字数 */
+const MAX_TYPE_SHAPE_CHARS = 1500;
+/** ライブラリの定義を要約する際の最大文字数（宣言行のみ） */
+const MAX_LIBRARY_SUMMARY_CHARS = 300;
 
 export interface DefinitionContext {
+    /** block: 定義ブロック全体 / signature: シグネチャのみ */
+    kind: 'block' | 'signature';
     symbolName: string;
     originFile: string;
     definitionFile: string;
+    /** block ではブロックのソース、signature ではホバーで得たシグネチャ */
     definitionContent: string;
+    /** signature モードで型定義プロバイダから得た型の定義位置と内容 */
+    typeDefinitionFile?: string;
+    typeDefinitionContent?: string;
+    /** 定義元ドキュメントの languageId（コードブロックの言語指定に使う） */
+    languageId: string;
     startLine: number;
     endLine: number;
 }
 
+/** 定義元の検索結果キャッシュの最大件数（レビューをまたいで再利用する） */
+const MAX_CACHE_ENTRIES = 5000;
+
+/**
+ * キャッシュに保存する定義位置。追跡はレビューごとに別の一時worktreeで行うため、ルート内のファイルはルートからの相対パスで持つ
+ */
+interface CachedLocation {
+    /** ルートからの相対パス（ルート外のファイルは URI の文字列） */
+    path: string;
+    inRoot: boolean;
+    range: vscode.Range;
+    /** ルート内のファイルの内容のハッシュ（再利用する前に、定義元のファイルが変わっていないかを確かめる） */
+    contentHash?: string;
+}
+
+/**
+ * 定義元の検索結果のキャッシュ。キーはルートからの相対パス・内容のハッシュと位置なので、
+ * 同じ内容のファイルに対する検索は次回以降のレビューでも（別の一時worktreeでも）再利用される
+ */
+const definitionCache = new Map<string, CachedLocation[]>();
+/** シンボルの一覧のキャッシュ。シンボルの範囲はドキュメントの内容だけで決まるため、言語と内容のハッシュをキーにする */
+const symbolCache = new Map<string, (vscode.DocumentSymbol | vscode.SymbolInformation)[]>();
+
+/** 1回の追跡で共有する状態 */
+interface TrackingContext {
+    maxDepth: number;
+    maxCharsPerFile: number;
+    mode: DefinitionMode;
+    executor: ProviderExecutor;
+    rootUri?: vscode.Uri;
+    visited: Set<string>;
+    toRelative: (uri: vscode.Uri) => string;
+}
+
 /**
  * ファイル内の変更行にある識別子に対して vscode.executeDefinitionProvider を実行し、
- * 定義元のソースコードを収集する（再帰的に maxDepth まで辿る）
+ * 定義元のソースコードを収集する（再帰的に maxDepth まで辿る）。
+ * プロバイダの呼び出しは executor で同時実行数とタイムアウトを制限する
  */
 export async function gatherDefinitionsForChangedLines(
     fileUri: vscode.Uri,
     changedLines: number[],
     maxDepth: number,
-    maxCharsPerFile: number
+    maxCharsPerFile: number,
+    executor: ProviderExecutor,
+    rootUri?: vscode.Uri,
+    mode: DefinitionMode = 'full'
 ): Promise<DefinitionContext[]> {
-    const visited = new Set<string>();
-    const results: DefinitionContext[] = [];
-
-    await gatherRecursive(fileUri, changedLines, maxDepth, 0, visited, results, maxCharsPerFile);
-
-    return results;
+    const ctx: TrackingContext = {
+        // シグネチャはプロンプト上で再帰的に辿る必要がないため、変更行の識別子だけを対象にする
+        maxDepth: mode === 'signature' ? Math.min(maxDepth, 1) : maxDepth,
+        maxCharsPerFile,
+        mode,
+        executor,
+        rootUri,
+        visited: new Set<string>(),
+        toRelative: (uri: vscode.Uri) => toRelativePath(uri, rootUri),
+    };
+    return gatherRecursive(fileUri, changedLines, 0, ctx);
 }
 
 async function gatherRecursive(
     fileUri: vscode.Uri,
     targetLines: number[],
-    maxDepth: number,
     currentDepth: number,
-    visited: Set<string>,
-    results: DefinitionContext[],
-    maxCharsPerFile: number
-): Promise<void> {
-    if (currentDepth >= maxDepth) { return; }
+    ctx: TrackingContext
+): Promise<DefinitionContext[]> {
+    if (currentDepth >= ctx.maxDepth) { return []; }
+
+    // 既に訪問済みのファイルはスキップ（並列実行でも二重に辿らないよう、await の前に印を付ける）
+    if (ctx.visited.has(fileUri.toString())) { return []; }
+    ctx.visited.add(fileUri.toString());
 
     // ファイルを開いてドキュメントを取得
     let document: vscode.TextDocument;
     try {
         document = await vscode.workspace.openTextDocument(fileUri);
     } catch {
-        return;
+        return [];
     }
+    const hash = contentHash(document);
 
-    // 既に訪問済みのファイルはスキップ
-    if (visited.has(fileUri.toString())) { return; }
-    visited.add(fileUri.toString());
-
-    // 変更行ごとに各トークン位置でDefinitionProviderを実行
+    // 変更行の各識別子の位置で DefinitionProvider を並列に実行する
+    const tasks: Promise<DefinitionContext[]>[] = [];
     for (const lineNo of targetLines) {
-        const line = document.lineAt(Math.min(lineNo - 1, document.lineCount - 1));
-        const lineText = line.text;
+        const line = document.lineAt(Math.min(Math.max(lineNo - 1, 0), document.lineCount - 1));
 
         // 行内の識別子を抽出（単語境界で分割）
-        const identifiers = extractIdentifiers(lineText);
-
-        for (const { name, col } of identifiers) {
-            const position = new vscode.Position(Math.max(lineNo - 1, 0), col);
-            const key = `${fileUri.toString()}:${lineNo}:${col}`;
-            if (visited.has(key)) { continue; }
-            visited.add(key);
-
-            let locations: vscode.Location[] = [];
-            try {
-                const defs = await vscode.commands.executeCommand<vscode.Location[] | vscode.LocationLink[]>(
-                    'vscode.executeDefinitionProvider',
-                    fileUri,
-                    position
-                );
-                if (!defs || defs.length === 0) { continue; }
-
-                // Location | LocationLink を Location に正規化
-                locations = defs.map(d => {
-                    if ('targetUri' in d) {
-                        return new vscode.Location(d.targetUri, d.targetRange);
-                    }
-                    return d as vscode.Location;
-                });
-            } catch {
-                continue;
-            }
-
-            for (const loc of locations) {
-                // 同じファイルの定義はスキップ（自己参照を避ける）
-                if (loc.uri.toString() === fileUri.toString()) { continue; }
+        for (const { name, col } of extractIdentifiers(line.text)) {
+            const key = `${fileUri.toString()}:${line.lineNumber}:${col}`;
+            if (ctx.visited.has(key)) { continue; }
+            ctx.visited.add(key);
 
-                const defKey = `${loc.uri.toString()}:${loc.range.start.line}`;
-                if (visited.has(defKey)) { continue; }
-                visited.add(defKey);
+            const position = new vscode.Position(line.lineNumber, col);
+            tasks.push(gatherForIdentifier(fileUri, hash, name, position, currentDepth, ctx));
+        }
+    }
 
-                try {
-                    const defDoc = await vscode.workspace.openTextDocument(loc.uri);
+    return (await Promise.all(tasks)).flat();
+}
 
-                    // 定義が含まれるブロック（関数・クラス等）の範囲を特定
-                    const { startLine, endLine, content } = extractDefinitionBlock(
-                        defDoc,
-                        loc.range.start.line,
-                        maxCharsPerFile
-                    );
+async function gatherForIdentifier(
+    fileUri: vscode.Uri,
+    hash: string,
+    name: string,
+    position: vscode.Position,
+    currentDepth: number,
+    ctx: TrackingContext
+): Promise<DefinitionContext[]> {
+    const results: DefinitionContext[] = [];
+    const locations = await findDefinitionLocations(fileUri, hash, position, ctx);
+
+    for (const loc of locations) {
+        // 同じファイルの定義はスキップ（自己参照を避ける）
+        if (loc.uri.toString() === fileUri.toString()) { continue; }
+
+        const defKey = `${loc.uri.toString()}:${loc.range.start.line}`;
+        if (ctx.visited.has(defKey)) { continue; }
+        ctx.visited.add(defKey);
+
+        try {
+            // ワークスペース外のライブラリや node_modules の定義は宣言行だけの要約にとどめ、辿らない
+            if (isLibraryLocation(loc.uri, ctx.rootUri)) {
+                const defDoc = await vscode.workspace.openTextDocument(loc.uri);
+                results.push({
+                    kind: 'signature',
+                    symbolName: name,
+                    originFile: ctx.toRelative(fileUri),
+                    definitionFile: ctx.toRelative(loc.uri),
+                    definitionContent: defDoc.lineAt(loc.range.start.line).text.trim().slice(0, MAX_LIBRARY_SUMMARY_CHARS),
+                    languageId: defDoc.languageId,
+                    startLine: loc.range.start.line + 1,
+                    endLine: loc.range.start.line + 1,
+                });
+                break;
+            }
 
+            if (ctx.mode === 'signature') {
+                const signature = await collectSignature(fileUri, position, ctx);
+                if (signature) {
                     results.push({
+                        ...signature,
                         symbolName: name,
-                        originFile: vscode.workspace.asRelativePath(fileUri),
-                        definitionFile: vscode.workspace.asRelativePath(loc.uri),
-                        definitionContent: content,
-                        startLine,
-                        endLine,
+                        originFile: ctx.toRelative(fileUri),
+                        definitionFile: ctx.toRelative(loc.uri),
+                        startLine: loc.range.start.line + 1,
+                        endLine: loc.range.end.line + 1,
                     });
-
-                    // 再帰的に定義元のファイルも追跡
-                    const nextLines = [startLine, Math.floor((startLine + endLine) / 2)];
-                    await gatherRecursive(
-                        loc.uri,
-                        nextLines,
-                        maxDepth,
-                        currentDepth + 1,
-                        visited,
-                        results,
-                        maxCharsPerFile
-                    );
-                } catch {
-                    continue;
                 }
+                // 同じ識別子の別の定義位置（オーバーロード等）はホバーにまとまっているため1件でよい
+                break;
             }
+
+            const defDoc = await vscode.workspace.openTextDocument(loc.uri);
+
+            // 定義が含まれるブロック（関数・クラス等）の範囲を特定
+            const { startLine, endLine, content } = await findDefinitionBlock(
+                defDoc,
+                loc.range.start,
+                ctx.maxCharsPerFile,
+                ctx.executor
+            );
+
+            results.push({
+                kind: 'block',
+                symbolName: name,
+                originFile: ctx.toRelative(fileUri),
+                definitionFile: ctx.toRelative(loc.uri),
+                definitionContent: content,
+                languageId: defDoc.languageId,
+                startLine,
+                endLine,
+            });
+
+            // 再帰的に定義元のファイルも追跡
+            const nextLines = [startLine, Math.floor((startLine + endLine) / 2)];
+            results.push(...await gatherRecursive(loc.uri, nextLines, currentDepth + 1, ctx));
+        } catch {
+            continue;
+        }
+    }
+    return results;
+}
+
+async function findDefinitionLocations(
+    fileUri: vscode.Uri,
+    hash: string,
+    position: vscode.Position,
+    ctx: TrackingContext
+): Promise<vscode.Location[]> {
+    const cacheKey = `${toCachePath(fileUri, ctx.rootUri).path}@${hash}:${position.line}:${position.character}`;
+    const cached = definitionCache.get(cacheKey);
+    if (cached) {
+        const restored = await restoreLocations(cached, ctx.rootUri);
+        if (restored) { return restored; }
+    }
+
+    const defs = await ctx.executor.execute<(vscode.Location | vscode.LocationLink)[]>(
+        'vscode.executeDefinitionProvider',
+        fileUri,
+        position
+    ).catch(() => undefined);
+    // タイムアウト・エラー時はキャッシュしない（次回のレビューで再試行する）
+    if (!defs) { return []; }
+
+    // Location | LocationLink を Location に正規化
+    const locations = defs.map(d => 'targetUri' in d ? new vscode.Location(d.targetUri, d.targetRange) : d);
+
+    if (definitionCache.size >= MAX_CACHE_ENTRIES) {
+        // 挿入順で最も古いエントリから捨てる
+        definitionCache.delete(definitionCache.keys().next().value as string);
+    }
+    definitionCache.set(cacheKey, await toCachedLocations(locations, ctx.rootUri));
+    return locations;
+}
+
+async function toCachedLocations(locations: vscode.Location[], rootUri?: vscode.Uri): Promise<CachedLocation[]> {
+    const cached: CachedLocation[] = [];
+    for (const loc of locations) {
+        const { path: cachePath, inRoot } = toCachePath(loc.uri, rootUri);
+        const document = inRoot ? await vscode.workspace.openTextDocument(loc.uri).then(d => d, () => undefined) : undefined;
+        cached.push({ path: cachePath, inRoot, range: loc.range, contentHash: document && contentHash(document) });
+    }
+    return cached;
+}
+
+/** キャッシュした定義位置を今回のルートの URI に戻す。ルート内の定義元のファイルの内容が変わっていれば undefined */
+async function restoreLocations(cached: CachedLocation[], rootUri?: vscode.Uri): Promise<vscode.Location[] | undefined> {
+    const locations: vscode.Location[] = [];
+    for (const c of cached) {
+        if (!c.inRoot) {
+            locations.push(new vscode.Location(vscode.Uri.parse(c.path), c.range));
+            continue;
         }
+        if (!rootUri) { return undefined; }
+        const uri = vscode.Uri.joinPath(rootUri, c.path);
+        const document = await vscode.workspace.openTextDocument(uri).then(d => d, () => undefined);
+        if (!document || contentHash(document) !== c.contentHash) { return undefined; }
+        locations.push(new vscode.Location(uri, c.range));
     }
+    return locations;
+}
+
+/** ルート内のファイルはルートからの相対パス、それ以外は URI の文字列 */
+function toCachePath(uri: vscode.Uri, rootUri?: vscode.Uri): { path: string; inRoot: boolean } {
+    const relative = relativeToRoot(uri, rootUri);
+    return relative !== undefined ? { path: relative, inRoot: true } : { path: uri.toString(), inRoot: false };
+}
+
+/** ドキュメントの内容のハッシュ */
+function contentHash(document: vscode.TextDocument): string {
+    return crypto.createHash('sha1').update(document.getText()).digest('hex').slice(0, 16);
+}
+
+/** ワークスペース（追跡のルート）の外にあるファイルや node_modules 配下をライブラリとみなす */
+function isLibraryLocation(uri: vscode.Uri, rootUri?: vscode.Uri): boolean {
+    if (uri.scheme !== 'file') { return true; }
+    if (/[\\/]node_modules[\\/]/.test(uri.fsPath)) { return true; }
+
+    const roots = [rootUri, ...(vscode.workspace.workspaceFolders ?? []).map(f => f.uri)]
+        .filter((r): r is vscode.Uri => !!r);
+    return !roots.some(root => {
+        const relative = path.relative(root.fsPath, uri.fsPath);
+        return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+    });
 }
 
 /**
- * ドキュメント内の指定行から、定義ブロック（関数・クラス・メソッド）の範囲を抽出する
+ * 識別子のシグネチャを vscode.executeHoverProvider で、型の形を vscode.executeTypeDefinitionProvider で収集する
+ */
+async function collectSignature(
+    fileUri: vscode.Uri,
+    position: vscode.Position,
+    ctx: TrackingContext
+): Promise<Pick<DefinitionContext, 'kind' | 'definitionContent' | 'languageId' | 'typeDefinitionFile' | 'typeDefinitionContent'> | null> {
+    const hovers = await ctx.executor.execute<vscode.Hover[]>('vscode.executeHoverProvider', fileUri, position).catch(() => undefined);
+    const signature = extractSignature(hovers ?? []);
+    if (!signature.text) { return null; }
+
+    let typeDefinitionFile: string | undefined;
+    let typeDefinitionContent: string | undefined;
+    try {
+        const typeDefs = await ctx.executor.execute<(vscode.Location | vscode.LocationLink)[]>(
+            'vscode.executeTypeDefinitionProvider',
+            fileUri,
+            position
+        );
+        const first = typeDefs?.[0];
+        if (first) {
+            const uri = 'targetUri' in first ? first.targetUri : first.uri;
+            const range = 'targetUri' in first ? first.targetRange : first.range;
+            const typeDoc = await vscode.workspace.openTextDocument(uri);
+            const maxChars = Math.min(ctx.maxCharsPerFile, MAX_TYPE_SHAPE_CHARS);
+            // ライブラリの型は宣言行だけにとどめる
+            const content = isLibraryLocation(uri, ctx.rootUri)
+                ? typeDoc.lineAt(range.start.line).text.trim().slice(0, MAX_LIBRARY_SUMMARY_CHARS)
+                : (await findDefinitionBlock(typeDoc, range.start, maxChars, ctx.executor)).content;
+            typeDefinitionFile = `${ctx.toRelative(uri)}:${range.start.line + 1}`;
+            typeDefinitionContent = content;
+        }
+    } catch {
+        // 型定義が取れない識別子（関数そのもの等）はシグネチャのみ
+    }
+
+    return {
+        kind: 'signature',
+        definitionContent: signature.text.slice(0, ctx.maxCharsPerFile),
+        languageId: signature.languageId,
+        typeDefinitionFile,
+        typeDefinitionContent,
+    };
+}
+
+/** ホバーの内容からコードブロック（シグネチャ）部分を取り出す。コードブロックがなければ先頭の段落を使う */
+function extractSignature(hovers: vscode.Hover[]): { text: string; languageId: string } {
+    const codeBlocks: { text: string; languageId: string }[] = [];
+    const paragraphs: string[] = [];
+
+    for (const hover of hovers) {
+        for (const content of hover.contents) {
+            if (typeof content === 'object' && 'language' in content) {
+                codeBlocks.push({ text: content.value.trim(), languageId: content.language });
+                continue;
+            }
+            const markdown = typeof content === 'string' ? content : content.value;
+            const fence = /```(\w*)\n([\s\S]*?)```/g;
+            let match: RegExpExecArray | null;
+            let found = false;
+            while ((match = fence.exec(markdown)) !== null) {
+                codeBlocks.push({ text: match[2].trim(), languageId: match[1] });
+                found = true;
+            }
+            if (!found && markdown.trim()) {
+                paragraphs.push(markdown.trim().split(/\n\s*\n/)[0]);
+            }
+        }
+    }
+
+    if (codeBlocks.length > 0) {
+        return {
+            text: [...new Set(codeBlocks.map(b => b.text))].join('\n'),
+            languageId: codeBlocks[0].languageId,
+        };
+    }
+    return { text: paragraphs[0] ?? '', languageId: '' };
+}
+
+/**
+ * rootUri 配下のファイルは rootUri からの相対パス、それ以外はワークスペース相対パスに変換する
+ */
+export function toRelativePath(uri: vscode.Uri, rootUri?: vscode.Uri): string {
+    return relativeToRoot(uri, rootUri) ?? vscode.workspace.asRelativePath(uri);
+}
+
+/** rootUri からの相対パス（rootUri の外のファイルは undefined） */
+function relativeToRoot(uri: vscode.Uri, rootUri?: vscode.Uri): string | undefined {
+    if (rootUri && uri.scheme === rootUri.scheme) {
+        const relative = path.relative(rootUri.fsPath, uri.fsPath);
+        if (relative && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+            return relative.split(path.sep).join('/');
+        }
+    }
+    return undefined;
+}
+
+/**
+ * 定義位置を囲む最小のシンボル（関数・クラス・メソッド等）の範囲を DocumentSymbolProvider で求めて抽出する。
+ * シンボル情報を提供する拡張機能がない言語では正規表現による抽出にフォールバックする
+ */
+export async function findDefinitionBlock(
+    doc: vscode.TextDocument,
+    position: vscode.Position,
+    maxChars: number,
+    executor: ProviderExecutor
+): Promise<{ startLine: number; endLine: number; content: string }> {
+    const symbols = await getDocumentSymbols(doc, executor);
+    const range = symbols && symbols.length > 0 ? findSmallestEnclosingRange(symbols, position) : undefined;
+    if (!range) {
+        return extractDefinitionBlock(doc, position.line, maxChars);
+    }
+
+    const content = doc.getText(new vscode.Range(range.start.line, 0, range.end.line + 1, 0));
+    return {
+        startLine: range.start.line + 1,
+        endLine: range.end.line + 1,
+        content: content.slice(0, maxChars),
+    };
+}
+
+/**
+ * vscode.executeDocumentSymbolProvider の結果を返す。定義元の検索結果と同じくドキュメントの内容ごとにキャッシュする
+ * （SymbolInformation の location.uri は最初に取得したドキュメントのものになるため、名前と範囲だけを使うこと）。
+ * タイムアウト・エラー時は undefined を返し、キャッシュしない
+ */
+export async function getDocumentSymbols(
+    doc: vscode.TextDocument,
+    executor: ProviderExecutor
+): Promise<(vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined> {
+    const cacheKey = `${doc.languageId}@${contentHash(doc)}`;
+    if (symbolCache.has(cacheKey)) { return symbolCache.get(cacheKey); }
+
+    const symbols = await executor.execute<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>(
+        'vscode.executeDocumentSymbolProvider',
+        doc.uri
+    ).catch(() => undefined);
+    if (symbols) {
+        if (symbolCache.size >= MAX_CACHE_ENTRIES) {
+            symbolCache.delete(symbolCache.keys().next().value as string);
+        }
+        symbolCache.set(cacheKey, symbols);
+    }
+    return symbols;
+}
+
+function findSmallestEnclosingRange(
+    symbols: (vscode.DocumentSymbol | vscode.SymbolInformation)[],
+    position: vscode.Position
+): vscode.Range | undefined {
+    let best: vscode.Range | undefined;
+    const visit = (items: (vscode.DocumentSymbol | vscode.SymbolInformation)[]) => {
+        for (const symbol of items) {
+            // DocumentSymbol は children を持つ階層構造、SymbolInformation はフラットな一覧
+            const range = 'location' in symbol ? symbol.location.range : symbol.range;
+            if (!range.contains(position)) { continue; }
+            if (!best || best.contains(range)) {
+                best = range;
+            }
+            if ('children' in symbol && symbol.children.length > 0) {
+                visit(symbol.children);
+            }
+        }
+    };
+    visit(symbols);
+    return best;
+}
+
+/**
+ * ドキュメント内の指定行から、定義ブロック（関数・クラス・メソッド）の範囲を正規表現とブレースの対応で抽出する
  */
 function extractDefinitionBlock(
     doc: vscode.TextDocument,
@@ -201,30 +538,3 @@ function extractIdentifiers(lineText: string): { name: string; col: number }[] {
 
     return results;
 }
-
-/**
- * DefinitionContext の配列を Markdown 形式に変換する
- */
-export function formatDefinitionsAsMarkdown(definitions: DefinitionContext[]): string {
-    if (definitions.length === 0) { return '（定義元ファイルの追跡結果なし）'; }
-
-    const grouped = new Map<string, DefinitionContext[]>();
-    for (const def of definitions) {
-        const existing = grouped.get(def.definitionFile) ?? [];
-        existing.push(def);
-        grouped.set(def.definitionFile, existing);
-    }
-
-    const parts: string[] = [];
-    for (const [file, defs] of grouped) {
-        const symbols = [...new Set(defs.map(d => d.symbolName))].join(', ');
-        // 重複ブロックを除去して最初の定義のみ採用
-        const firstDef = defs[0];
-        parts.push(
-            `### 定義元: \`${file}\` (シンボル: \`${symbols}\`)\n` +
-            `\`\`\`typescript\n${firstDef.definitionContent.trim()}\n\`\`\``
-        );
-    }
-
-    return parts.join('\n\n');
-}
@@ -0,0 +1,184 @@
+import { FileDiff, Hunk } from '../git/diffAnalyzer';
+
+interface LineRange {
+    start: number; // 1始まり、両端を含む
+    end: number;
+}
+
+/** ファイル先頭の import 等のヘッダとして扱う最大行数 */
+const MAX_HEADER_LINES = 60;
+/** 囲んでいる関数・クラスを探すために遡る最大行数 */
+const MAX_LOOKBACK_LINES = 200;
+/** これより長い関数・クラスは全体を含めず、宣言行と hunk 周辺だけを含める */
+const MAX_ENCLOSING_LINES = 150;
+
+const HEADER_LINE = /^\s*($|\/\/|\/\*|\*|#|--|import\b|from\s+\S+\s+import\b|export\s+(\*|\{[^}]*\})\s+from\b|package\b|using\b|require\b|include\b|require_relative\b|use\b|namespace\b|['"]use strict['"]|<\?php|const\s+\w+\s*=\s*require\()/;
+
+const DECLARATION_LINE = /^\s*((export|default|public|private|protected|internal|static|async|abstract|override|final|open|suspend|inline|sealed|data|pub)\s+)*(function\*?|def|class|interface|struct|enum|trait|impl|fun|func|fn|sub|module|object)\b/;
+const ASSIGNED_FUNCTION_LINE = /^\s*(export\s+)?(const|let|var)\s+\w+\s*(:[^=]+)?=\s*(async\s+)?(function\b|\([^)]*\)\s*(:[^=]+)?=>|\w+\s*=>)/;
+const METHOD_LINE = /^\s*(?!(if|for|while|switch|catch|return|else|do|try|with)\b)[\w<>\[\],.?\s]*\b\w+\s*\([^;]*\)\s*(:\s*[^{;]+)?(throws\s+[\w., ]+)?\s*\{\s*$/;
+
+/**
+ * 変更ファイルの内容を行番号付きで整形する。
+ * maxChars を超える長いファイルは、各 hunk を囲む関数・クラスと前後 contextLines 行、
+ * およびファイル先頭の import 等のヘッダだけを抜粋する。
+ */
+export function buildFileExcerpt(
+    content: string,
+    fileDiff: FileDiff | undefined,
+    contextLines: number,
+    maxChars: number
+): string {
+    const lines = content.split('\n');
+    if (lines.length > 1 && lines[lines.length - 1] === '') { lines.pop(); }
+
+    if (content.length <= maxChars || !fileDiff || fileDiff.hunks.length === 0) {
+        const numbered = renderRanges(lines, [{ start: 1, end: lines.length }]);
+        return numbered.length > maxChars
+            ? numbered.slice(0, maxChars) + `\n\n... (${numbered.length - maxChars}文字省略)`
+            : numbered;
+    }
+
+    const ranges: LineRange[] = [];
+    const header = findHeaderRange(lines);
+    if (header) { ranges.push(header); }
+
+    for (const hunk of fileDiff.hunks) {
+        ranges.push(...rangesForHunk(lines, hunk, contextLines));
+    }
+
+    const excerpt = renderRanges(lines, mergeRanges(ranges, lines.length));
+    return excerpt.length > maxChars
+        ? excerpt.slice(0, maxChars) + `\n\n... (抜粋のうち${excerpt.length - maxChars}文字省略)`
+        : excerpt;
+}
+
+function findHeaderRange(lines: string[]): LineRange | null {
+    let end = 0;
+    for (let i = 0; i < Math.min(lines.length, MAX_HEADER_LINES); i++) {
+        if (!HEADER_LINE.test(lines[i])) { break; }
+        end = i + 1;
+    }
+    // 末尾の空行は含めない
+    while (end > 0 && lines[end - 1].trim() === '') { end--; }
+    return end > 0 ? { start: 1, end } : null;
+}
+
+/** hunk が比較ブランチ側で占める行範囲と、それを囲む関数・クラスの範囲を返す */
+function rangesForHunk(lines: string[], hunk: Hunk, contextLines: number): LineRange[] {
+    const newLength = hunk.lines.filter(l => !l.startsWith('-') && !l.startsWith('\\')).length;
+    const hunkStart = Math.max(hunk.newStart, 1);
+    const hunkEnd = Math.max(hunkStart + newLength - 1, hunkStart);
+    const ranges: LineRange[] = [{ start: hunkStart - contextLines, end: hunkEnd + contextLines }];
+
+    const enclosing = findEnclosingBlock(lines, hunkStart);
+    if (enclosing) {
+        if (enclosing.end - enclosing.start + 1 <= MAX_ENCLOSING_LINES) {
+            ranges.push(enclosing);
+        } else {
+            // 長すぎるブロックはシグネチャ（宣言行）だけ含める
+            ranges.push({ start: enclosing.start, end: enclosing.start });
+        }
+    }
+    return ranges;
+}
+
+function findEnclosingBlock(lines: string[], lineNo: number): LineRange | null {
+    const firstCode = lines.slice(lineNo - 1).find(l => l.trim() !== '') ?? '';
+    const targetIndent = indentOf(firstCode);
+
+    for (let i = Math.min(lineNo, lines.length) - 1; i >= Math.max(0, lineNo - 1 - MAX_LOOKBACK_LINES); i--) {
+        const text = lines[i];
+        if (!isDeclaration(text)) { continue; }
+        // 変更行より浅いインデントの宣言（または変更行そのもの）だけを囲みブロックとみなす
+        if (i !== lineNo - 1 && indentOf(text) >= targetIndent) { continue; }
+
+        const end = findBlockEnd(lines, i);
+        if (end + 1 >= lineNo) {
+            return { start: i + 1, end: end + 1 };
+        }
+    }
+    return null;
+}
+
+function isDeclaration(text: string): boolean {
+    return DECLARATION_LINE.test(text) || ASSIGNED_FUNCTION_LINE.test(text) || METHOD_LINE.test(text);
+}
+
+/** 宣言行から、波括弧またはインデントでブロックの終端行（0始まり）を求める */
+function findBlockEnd(lines: string[], declIndex: number): number {
+    const declIndent = indentOf(lines[declIndex]);
+    const limit = Math.min(lines.length, declIndex + MAX_LOOKBACK_LINES * 5);
+
+    // 宣言行の直後数行以内に { があれば波括弧で追跡する
+    const usesBraces = lines.slice(declIndex, declIndex + 3).some(l => l.includes('{'));
+    if (usesBraces) {
+        let depth = 0;
+        let opened = false;
+        for (let i = declIndex; i < limit; i++) {
+            for (const ch of lines[i]) {
+                if (ch === '{') { depth++; opened = true; }
+                if (ch === '}') { depth--; }
+            }
+            if (opened && depth <= 0) { return i; }
+        }
+        return limit - 1;
+    }
+
+    // Python / Ruby 等: 宣言行より深いインデントが続く範囲をブロックとする
+    let end = declIndex;
+    for (let i = declIndex + 1; i < limit; i++) {
+        const text = lines[i];
+        if (text.trim() === '') { continue; }
+        if (indentOf(text) <= declIndent) {
+            // Ruby の end は同じインデントでもブロックに含める
+            if (/^\s*end\b/.test(text)) { end = i; }
+            break;
+        }
+        end = i;
+    }
+    return end;
+}
+
+function indentOf(text: string): number {
+    const match = text.match(/^[ \t]*/);
+    return match ? match[0].replace(/\t/g, '    ').length : 0;
+}
+
+function mergeRanges(ranges: LineRange[], lineCount: number): LineRange[] {
+    const clamped = ranges
+        .map(r => ({ start: Math.max(1, r.start), end: Math.min(lineCount, r.end) }))
+        .filter(r => r.start <= r.end)
+        .sort((a, b) => a.start - b.start);
+
+    const merged: LineRange[] = [];
+    for (const r of clamped) {
+        const last = merged[merged.length - 1];
+        if (last && r.start <= last.end + 2) {
+            last.end = Math.max(last.end, r.end);
+        } else {
+            merged.push({ ...r });
+        }
+    }
+    return merged;
+}
+
+function renderRanges(lines: string[], ranges: LineRange[]): string {
+    const width = String(lines.length).length;
+    const parts: string[] = [];
+    let previousEnd = 0;
+
+    for (const r of ranges) {
+        if (r.start > previousEnd + 1) {
+            parts.push(`${' '.repeat(width)} | ... (${r.start - previousEnd - 1}行省略)`);
+        }
+        for (let n = r.start; n <= r.end; n++) {
+            parts.push(`${String(n).padStart(width)} | ${lines[n - 1]}`);
+        }
+        previousEnd = r.end;
+    }
+    if (previousEnd < lines.length) {
+        parts.push(`${' '.repeat(width)} | ... (${lines.length - previousEnd}行省略)`);
+    }
+    return parts.join('\n');
+}
@@ -0,0 +1,253 @@
+import * as vscode from 'vscode';
+import { FileDiff, getFileDiffPath } from '../git/diffAnalyzer';
+import { collectResponse } from './aiReviewer';
+import { ReviewModel } from './modelProvider';
+import { buildDiffSection } from './promptBuilder';
+import { CITATION_PATTERN, StructuredReview, formatFindingLocation, splitListItems } from './reviewFindings';
+
+/** 指摘の検証方法（location: 行番号と差分の照合のみ / llm: さらにモデルに根拠を確認させる） */
+export type VerificationMode = 'off' | 'location' | 'llm';
+
+/** 検証で除外した理由 */
+export type RejectionReason = 'unknownFile' | 'lineOutOfRange' | 'outsideChanges' | 'unsupported';
+
+export interface RejectedFinding {
+    /** 指摘が示していた箇所（file:line） */
+    location: string;
+    /** 指摘の本文 */
+    text: string;
+    reason: RejectionReason;
+    /** モデルによる検証で除外した場合の説明 */
+    detail?: string;
+}
+
+/** 変更箇所（hunk の範囲）からこの行数以内であれば、差分に関する指摘とみなす */
+const CHANGE_PROXIMITY_LINES = 10;
+/** モデルによる検証のプロンプトに含める指摘箇所の前後の行数 */
+const LLM_SNIPPET_CONTEXT_LINES = 5;
+
+interface FileIndex {
+    path: string;
+    /** 比較側の行数（削除ファイルは undefined） */
+    lineCount?: number;
+    /** 比較側で hunk が占める行範囲 */
+    hunkRanges: { start: number; end: number }[];
+}
+
+/** 検証の対象とする1件の指摘 */
+interface Candidate {
+    location: string;
+    text: string;
+    file?: FileIndex;
+    startLine: number;
+    endLine: number;
+}
+
+/**
+ * 構造化された指摘の file:line を差分と比較側のファイル内容に照らして検証し、
+ * 存在しない行や変更されていない箇所への指摘を取り除く
+ */
+export async function verifyStructuredReview(
+    review: StructuredReview,
+    fileDiffs: FileDiff[],
+    fileContents: Map<string, string>,
+    mode: VerificationMode,
+    model: ReviewModel,
+    cancellationToken: vscode.CancellationToken
+): Promise<{ review: StructuredReview; rejected: RejectedFinding[] }> {
+    if (mode === 'off') { return { review, rejected: [] }; }
+
+    const index = buildFileIndex(fileDiffs, fileContents);
+    const candidates: Candidate[] = review.findings.map(f => ({
+        location: formatFindingLocation(f),
+        text: f.message,
+        file: findFile(index, f.file),
+        startLine: f.startLine,
+        endLine: f.endLine,
+    }));
+
+    const rejections = await verifyCandidates(candidates, fileDiffs, fileContents, mode, model, cancellationToken);
+    return {
+        review: { ...review, findings: review.findings.filter((_, i) => !rejections.has(i)) },
+        rejected: [...rejections.values()],
+    };
+}
+
+/**
+ * Markdown のレポートから、`file:line` を含む箇条書きの指摘を検証する。
+ * 示した箇所がすべて不正な項目だけを取り除き、箇所を示していない項目や見出しはそのまま残す
+ */
+export async function verifyMarkdownReview(
+    markdown: string,
+    fileDiffs: FileDiff[],
+    fileContents: Map<string, string>,
+    mode: VerificationMode,
+    model: ReviewModel,
+    cancellationToken: vscode.CancellationToken
+): Promise<{ markdown: string; rejected: RejectedFinding[] }> {
+    if (mode === 'off') { return { markdown, rejected: [] }; }
+
+    const index = buildFileIndex(fileDiffs, fileContents);
+    const items = splitListItems(markdown);
+    const candidates: Candidate[] = [];
+    const itemIndexes: number[] = [];
+
+    items.forEach((item, itemIndex) => {
+        if (!item.isListItem) { return; }
+        const citations = [...item.text.matchAll(CITATION_PATTERN)];
+        if (citations.length === 0) { return; }
+
+        // 項目が示す箇所のうち、最も妥当なもの（検証を通るもの）を代表として使う
+        const parsed = citations.map(m => ({
+            location: m[0].replace(/`/g, ''),
+            file: findFile(index, m[1]),
+            startLine: Number(m[2]),
+            endLine: Math.max(Number(m[3] ?? m[2]), Number(m[2])),
+        }));
+        const best = parsed.find(c => checkLocation(c.file, c.startLine, c.endLine) === undefined) ?? parsed[0];
+        candidates.push({ ...best, text: item.text.trim() });
+        itemIndexes.push(itemIndex);
+    });
+
+    const rejections = await verifyCandidates(candidates, fileDiffs, fileContents, mode, model, cancellationToken);
+    const removed = new Set([...rejections.keys()].map(i => itemIndexes[i]));
+    return {
+        markdown: items.filter((_, i) => !removed.has(i)).map(item => item.text).join('\n'),
+        rejected: [...rejections.values()],
+    };
+}
+
+async function verifyCandidates(
+    candidates: Candidate[],
+    fileDiffs: FileDiff[],
+    fileContents: Map<string, string>,
+    mode: VerificationMode,
+    model: ReviewModel,
+    cancellationToken: vscode.CancellationToken
+): Promise<Map<number, RejectedFinding>> {
+    const rejections = new Map<number, RejectedFinding>();
+    candidates.forEach((c, i) => {
+        const reason = checkLocation(c.file, c.startLine, c.endLine);
+        if (reason) {
+            rejections.set(i, { location: c.location, text: c.text, reason });
+        }
+    });
+
+    if (mode === 'llm') {
+        const remaining = candidates
+            .map((c, i) => ({ c, i }))
+            .filter(({ i }) => !rejections.has(i));
+        const unsupported = await askModelForUnsupported(
+            remaining.map(r => r.c), fileDiffs, fileContents, model, cancellationToken
+        );
+        for (const [k, detail] of unsupported) {
+            const { c, i } = remaining[k];
+            rejections.set(i, { location: c.location, text: c.text, reason: 'unsupported', detail });
+        }
+    }
+    return rejections;
+}
+
+function checkLocation(file: FileIndex | undefined, startLine: number, endLine: number): RejectionReason | undefined {
+    if (!file) { return 'unknownFile'; }
+    // 削除されたファイルは比較側の内容がないため、行番号は照合しない
+    if (file.lineCount === undefined) { return undefined; }
+    if (startLine < 1 || endLine > file.lineCount) { return 'lineOutOfRange'; }
+
+    const nearChange = file.hunkRanges.some(r =>
+        startLine <= r.end + CHANGE_PROXIMITY_LINES && endLine >= r.start - CHANGE_PROXIMITY_LINES
+    );
+    return nearChange ? undefined : 'outsideChanges';
+}
+
+function buildFileIndex(fileDiffs: FileDiff[], fileContents: Map<string, string>): FileIndex[] {
+    return fileDiffs.map(fd => {
+        const filePath = getFileDiffPath(fd);
+        const content = fileContents.get(filePath);
+        return {
+            path: filePath,
+            lineCount: fd.isDeleted || content === undefined ? undefined : content.split('\n').length,
+            hunkRanges: fd.hunks.map(h => ({
+                start: h.newStart,
+                end: h.newStart + Math.max(h.lines.filter(l => !l.startsWith('-')).length - 1, 0),
+            })),
+        };
+    });
+}
+
+/** モデルが省略したパス（例: foo.ts, src/foo.ts）も、差分中のファイルと末尾が一致すれば同じファイルとみなす */
+function findFile(index: FileIndex[], cited: string): FileIndex | undefined {
+    const normalized = cited.replace(/^\.?\//, '').replace(/^[ab]\//, '');
+    return index.find(f => f.path === normalized)
+        ?? index.find(f => f.path.endsWith('/' + normalized));
+}
+
+/**
+ * 指摘が差分で裏付けられているかをモデルに確認し、裏付けのない指摘の番号（candidates の添字）と理由を返す。
+ * 応答を解析できない場合は何も除外しない
+ */
+async function askModelForUnsupported(
+    candidates: Candidate[],
+    fileDiffs: FileDiff[],
+    fileContents: Map<string, string>,
+    model: ReviewModel,
+    cancellationToken: vscode.CancellationToken
+): Promise<Map<number, string>> {
+    const result = new Map<number, string>();
+    if (candidates.length === 0) { return result; }
+
+    const citedPaths = new Set(candidates.map(c => c.file?.path));
+    const findings = candidates.map((c, i) => {
+        const snippet = c.file ? buildSnippet(fileContents.get(c.file.path), c.startLine, c.endLine) : '';
+        return `## 指摘 ${i + 1}: ${c.location}\n${c.text}` + (snippet ? `\n\n該当箇所:\n\`\`\`\n${snippet}\n\`\`\`` : '');
+    });
+
+    const prompt = `# Role
+あなたはコードレビューの指摘を検証するレビューアーです。
+
+# 変更差分
+${buildDiffSection(fileDiffs.filter(fd => citedPaths.has(getFileDiffPath(fd))))}
+
+# 検証する指摘
+${findings.join('\n\n')}
+
+# Mission
+各指摘が、変更差分と該当箇所のコードによって実際に裏付けられているかを判定してください。
+示された行に該当するコードがない、変更されていないコードについての指摘である、コードの内容を取り違えている、といった指摘を「裏付けなし」とします。
+判断に迷う場合は裏付けありとしてください。
+
+# Output Format
+次の形式の JSON オブジェクト1つだけを出力してください。裏付けのない指摘がなければ unsupported は空配列にしてください。
+{"unsupported": [{"id": 指摘の番号, "reason": "裏付けがないと判断した理由（簡潔に）"}]}`;
+
+    try {
+        const text = await collectResponse(model, [vscode.LanguageModelChatMessage.User(prompt)], cancellationToken);
+        const parsed = JSON.parse(text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1)) as {
+            unsupported?: { id?: unknown; reason?: unknown }[];
+        };
+        for (const entry of parsed.unsupported ?? []) {
+            const id = Number(entry.id);
+            if (Number.isInteger(id) && id >= 1 && id <= candidates.length) {
+                result.set(id - 1, typeof entry.reason === 'string' ? entry.reason : '');
+            }
+        }
+    } catch {
+        // 検証に失敗しても、位置の照合を通った指摘はそのまま残す
+        if (cancellationToken.isCancellationRequested) { throw new vscode.CancellationError(); }
+        result.clear();
+    }
+    return result;
+}
+
+function buildSnippet(content: string | undefined, startLine: number, endLine: number): string {
+    if (content === undefined) { return ''; }
+    const lines = content.split('\n');
+    const start = Math.max(1, startLine - LLM_SNIPPET_CONTEXT_LINES);
+    const end = Math.min(lines.length, endLine + LLM_SNIPPET_CONTEXT_LINES);
+    const width = String(end).length;
+    const numbered: string[] = [];
+    for (let i = start; i <= end; i++) {
+        numbered.push(`${String(i).padStart(width)} | ${lines[i - 1]}`);
+    }
+    return numbered.join('\n');
+}
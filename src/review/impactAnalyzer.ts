@@ -0,0 +1,138 @@
+import * as vscode from 'vscode';
+import { getDocumentSymbols, toRelativePath } from './definitionTracker';
+import { ProviderExecutor } from './providerExecutor';
+
+export interface ImpactContext {
+    /** 変更された関数・クラス等の名前 */
+    symbolName: string;
+    /** 変更されたシンボルがあるファイル */
+    originFile: string;
+    /** 参照（呼び出し）箇所のファイルと行番号（1始まり） */
+    referenceFile: string;
+    line: number;
+    /** 参照箇所の前後数行（行番号付き） */
+    snippet: string;
+    languageId: string;
+}
+
+/** 呼び出し元として追跡するシンボルの種類 */
+const TRACKED_SYMBOL_KINDS = new Set<vscode.SymbolKind>([
+    vscode.SymbolKind.Function,
+    vscode.SymbolKind.Method,
+    vscode.SymbolKind.Constructor,
+    vscode.SymbolKind.Class,
+    vscode.SymbolKind.Interface,
+    vscode.SymbolKind.Enum,
+    vscode.SymbolKind.Struct,
+]);
+
+/** 参照箇所の前後に含める行数 */
+const SNIPPET_CONTEXT_LINES = 2;
+
+interface ChangedSymbol {
+    name: string;
+    range: vscode.Range;
+    /** 参照検索に使うシンボル名の位置 */
+    position: vscode.Position;
+}
+
+/**
+ * 変更行を含む関数・クラスを DocumentSymbolProvider で特定し、
+ * vscode.executeReferenceProvider でその呼び出し元（影響範囲）を最大 maxReferences 件収集する
+ */
+export async function gatherImpactForChangedSymbols(
+    fileUri: vscode.Uri,
+    changedLines: number[],
+    maxReferences: number,
+    executor: ProviderExecutor,
+    rootUri?: vscode.Uri
+): Promise<ImpactContext[]> {
+    const results: ImpactContext[] = [];
+    if (maxReferences <= 0 || changedLines.length === 0) { return results; }
+
+    const document = await vscode.workspace.openTextDocument(fileUri);
+    const symbols = await getDocumentSymbols(document, executor);
+    if (!symbols || symbols.length === 0) { return results; }
+
+    const changedSymbols = findChangedSymbols(document, symbols, changedLines);
+
+    for (const symbol of changedSymbols) {
+        const locations = await executor.execute<vscode.Location[]>(
+            'vscode.executeReferenceProvider',
+            fileUri,
+            symbol.position
+        ).catch(() => undefined);
+
+        for (const loc of locations ?? []) {
+            // 宣言自身やシンボル内部の自己参照は影響範囲に含めない
+            if (loc.uri.toString() === fileUri.toString() && symbol.range.contains(loc.range)) { continue; }
+
+            try {
+                const refDoc = await vscode.workspace.openTextDocument(loc.uri);
+                results.push({
+                    symbolName: symbol.name,
+                    originFile: toRelativePath(fileUri, rootUri),
+                    referenceFile: toRelativePath(loc.uri, rootUri),
+                    line: loc.range.start.line + 1,
+                    snippet: buildSnippet(refDoc, loc.range.start.line),
+                    languageId: refDoc.languageId,
+                });
+            } catch {
+                continue;
+            }
+            if (results.length >= maxReferences) { return results; }
+        }
+    }
+    return results;
+}
+
+/** 変更行ごとに、それを囲む最小の追跡対象シンボルを返す（重複なし） */
+function findChangedSymbols(
+    document: vscode.TextDocument,
+    symbols: (vscode.DocumentSymbol | vscode.SymbolInformation)[],
+    changedLines: number[]
+): ChangedSymbol[] {
+    const candidates: ChangedSymbol[] = [];
+    const visit = (items: (vscode.DocumentSymbol | vscode.SymbolInformation)[]) => {
+        for (const symbol of items) {
+            if (TRACKED_SYMBOL_KINDS.has(symbol.kind)) {
+                if ('location' in symbol) {
+                    // SymbolInformation は名前の位置を持たないため、範囲の先頭行から名前を探す
+                    const range = symbol.location.range;
+                    const col = document.lineAt(range.start.line).text.indexOf(symbol.name);
+                    const position = col >= 0 ? new vscode.Position(range.start.line, col) : range.start;
+                    candidates.push({ name: symbol.name, range, position });
+                } else {
+                    candidates.push({ name: symbol.name, range: symbol.range, position: symbol.selectionRange.start });
+                }
+            }
+            if ('children' in symbol && symbol.children.length > 0) {
+                visit(symbol.children);
+            }
+        }
+    };
+    visit(symbols);
+
+    const changed = new Map<string, ChangedSymbol>();
+    for (const lineNo of changedLines) {
+        const line = lineNo - 1;
+        const enclosing = candidates
+            .filter(c => c.range.start.line <= line && line <= c.range.end.line)
+            .sort((a, b) => (a.range.end.line - a.range.start.line) - (b.range.end.line - b.range.start.line))[0];
+        if (enclosing) {
+            changed.set(`${enclosing.position.line}:${enclosing.position.character}`, enclosing);
+        }
+    }
+    return [...changed.values()];
+}
+
+function buildSnippet(doc: vscode.TextDocument, line: number): string {
+    const start = Math.max(0, line - SNIPPET_CONTEXT_LINES);
+    const end = Math.min(doc.lineCount - 1, line + SNIPPET_CONTEXT_LINES);
+    const width = String(end + 1).length;
+    const lines: string[] = [];
+    for (let i = start; i <= end; i++) {
+        lines.push(`${String(i + 1).padStart(width)} | ${doc.lineAt(i).text}`);
+    }
+    return lines.join('\n');
+}
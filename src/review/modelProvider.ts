@@ -0,0 +1,84 @@
+import * as vscode from 'vscode';
+import type { BacklogConfig } from '../config';
+import { OpenAiCompatibleModel } from './openAiCompatibleModel';
+import { StubReviewModel } from './stubModel';
+
+/**
+ * レビューに使うモデルの提供元
+ * （vscode-lm: vscode.lm に登録された任意のベンダー / openai-compatible: Ollama・vLLM 等の HTTP エンドポイント / stub: オフライン確認用の固定応答）
+ */
+export type ModelProviderId = 'vscode-lm' | 'openai-compatible' | 'stub';
+
+/** OpenAI 互換エンドポイントの API キーを保存する SecretStorage のキー */
+export const OPENAI_API_KEY_SECRET = 'backlogReview.openAiApiKey';
+
+/**
+ * レビューに使うモデル。vscode.lm のモデル（LanguageModelChat）はそのままこの形を満たし、
+ * それ以外の提供元も同じ形で実装してレビュー処理から区別なく使う。
+ * stream はテキスト（LanguageModelTextPart）とツール呼び出し（LanguageModelToolCallPart）を順に返す
+ */
+export interface ReviewModel {
+    readonly name: string;
+    readonly vendor: string;
+    readonly family: string;
+    readonly maxInputTokens: number;
+    countTokens(text: string, token?: vscode.CancellationToken): Thenable<number>;
+    sendRequest(
+        messages: vscode.LanguageModelChatMessage[],
+        options?: vscode.LanguageModelChatRequestOptions,
+        token?: vscode.CancellationToken
+    ): Thenable<{ text: AsyncIterable<string>; stream: AsyncIterable<unknown> }>;
+}
+
+/**
+ * 設定された提供元のモデルを取得する
+ */
+export async function selectReviewModel(cfg: BacklogConfig, secrets: vscode.SecretStorage): Promise<ReviewModel> {
+    switch (cfg.modelProvider) {
+        case 'openai-compatible': {
+            if (!cfg.openAiBaseUrl || !cfg.openAiModel) {
+                throw new Error(vscode.l10n.t('Set the base URL and model of the OpenAI-compatible endpoint with "Backlog: Select AI Model".'));
+            }
+            // 空文字列はキーが不要なエンドポイントとして保存されたもの
+            const apiKey = await secrets.get(OPENAI_API_KEY_SECRET);
+            return new OpenAiCompatibleModel(cfg.openAiBaseUrl, cfg.openAiModel, apiKey || undefined, cfg.openAiMaxInputTokens);
+        }
+        case 'stub':
+            return new StubReviewModel();
+        default:
+            return selectLanguageModel(cfg.lmVendor, cfg.copilotModel);
+    }
+}
+
+/**
+ * 設定されたベンダー・モデルファミリーの vscode.lm モデルを取得する（見つからない場合はそのベンダーの先頭のモデル）
+ */
+async function selectLanguageModel(vendor: string, family: string): Promise<vscode.LanguageModelChat> {
+    const vendorSelector = vendor ? { vendor } : {};
+    const models = await vscode.lm.selectChatModels({ ...vendorSelector, family });
+    if (models.length > 0) { return models[0]; }
+
+    // フォールバック: familyを指定せずに取得
+    const fallbackModels = await vscode.lm.selectChatModels(vendorSelector);
+    if (fallbackModels.length === 0) {
+        throw new Error(vendor === 'copilot'
+            ? vscode.l10n.t('No GitHub Copilot models are available. Check that the GitHub Copilot extension is installed and enabled.')
+            : vscode.l10n.t('No language models from vendor "{0}" are available. Check that the extension providing them is enabled.', vendor));
+    }
+    return fallbackModels[0];
+}
+
+/** サイドバーに表示する、選択中のモデルの説明 */
+export function describeSelectedModel(cfg: BacklogConfig): string {
+    switch (cfg.modelProvider) {
+        case 'openai-compatible':
+            return cfg.openAiModel
+                ? vscode.l10n.t('{0} (OpenAI-compatible)', cfg.openAiModel)
+                : vscode.l10n.t('not selected');
+        case 'stub':
+            return vscode.l10n.t('Stub');
+        default:
+            if (!cfg.copilotModel) { return vscode.l10n.t('not selected'); }
+            return !cfg.lmVendor || cfg.lmVendor === 'copilot' ? cfg.copilotModel : `${cfg.lmVendor}/${cfg.copilotModel}`;
+    }
+}
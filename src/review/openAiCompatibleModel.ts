@@ -0,0 +1,232 @@
+import * as https from 'https';
+import * as http from 'http';
+import * as vscode from 'vscode';
+import type { ReviewModel } from './modelProvider';
+
+/**
+ * OpenAI 互換の Chat Completions API（Ollama・vLLM・LM Studio 等）を呼び出すモデル。
+ * 応答はストリーミング（Server-Sent Events）で受け取る
+ */
+export class OpenAiCompatibleModel implements ReviewModel {
+    readonly vendor = 'openai-compatible';
+    readonly family: string;
+    readonly name: string;
+
+    constructor(
+        private readonly baseUrl: string,
+        model: string,
+        private readonly apiKey: string | undefined,
+        readonly maxInputTokens: number
+    ) {
+        this.family = model;
+        this.name = model;
+    }
+
+    /**
+     * エンドポイントからはトークン数を取得できないため文字数から見積もる。
+     * ASCII は4文字で1トークン、日本語などそれ以外の文字は1文字で1トークンとして多めに数える
+     */
+    async countTokens(text: string): Promise<number> {
+        let ascii = 0;
+        for (let i = 0; i < text.length; i++) {
+            if (text.charCodeAt(i) < 0x80) { ascii++; }
+        }
+        return Math.ceil(ascii / 4) + (text.length - ascii);
+    }
+
+    async sendRequest(
+        messages: vscode.LanguageModelChatMessage[],
+        options?: vscode.LanguageModelChatRequestOptions,
+        token?: vscode.CancellationToken
+    ): Promise<{ text: AsyncIterable<string>; stream: AsyncIterable<ResponsePart> }> {
+        const tools = options?.tools ?? [];
+        const body = {
+            model: this.family,
+            stream: true,
+            messages: messages.flatMap(toChatMessages),
+            ...(tools.length > 0 ? {
+                tools: tools.map(t => ({
+                    type: 'function',
+                    function: { name: t.name, description: t.description, parameters: t.inputSchema ?? { type: 'object', properties: {} } },
+                })),
+            } : {}),
+        };
+        const res = await openRequest(this.baseUrl, '/chat/completions', this.apiKey, token, body);
+        const stream = readEventStream(res);
+        return { stream, text: textOnly(stream) };
+    }
+}
+
+type ResponsePart = vscode.LanguageModelTextPart | vscode.LanguageModelToolCallPart;
+
+/**
+ * vscode のメッセージを Chat Completions API のメッセージに変換する。
+ * ツールの呼び出しは assistant の tool_calls に、ツールの結果は tool ロールのメッセージにする
+ */
+function toChatMessages(message: vscode.LanguageModelChatMessage): object[] {
+    const text = message.content
+        .map(part => part instanceof vscode.LanguageModelTextPart ? part.value : '')
+        .join('');
+
+    if (message.role === vscode.LanguageModelChatMessageRole.Assistant) {
+        const calls = message.content.filter((part): part is vscode.LanguageModelToolCallPart => part instanceof vscode.LanguageModelToolCallPart);
+        return [{
+            role: 'assistant',
+            content: text || (calls.length > 0 ? null : ''),
+            ...(calls.length > 0 ? {
+                tool_calls: calls.map(c => ({
+                    id: c.callId,
+                    type: 'function',
+                    function: { name: c.name, arguments: JSON.stringify(c.input) },
+                })),
+            } : {}),
+        }];
+    }
+
+    const results = message.content
+        .filter((part): part is vscode.LanguageModelToolResultPart => part instanceof vscode.LanguageModelToolResultPart)
+        .map(r => ({
+            role: 'tool',
+            tool_call_id: r.callId,
+            content: r.content.map(c => c instanceof vscode.LanguageModelTextPart ? c.value : '').join(''),
+        }));
+    return text ? [...results, { role: 'user', content: text }] : results;
+}
+
+/** モデル一覧の取得を打ち切るまでの時間（ミリ秒） */
+const LIST_MODELS_TIMEOUT_MS = 10000;
+
+/**
+ * エンドポイントで利用できるモデルの ID 一覧（GET /models）を取得する。応答がない場合は LIST_MODELS_TIMEOUT_MS で打ち切る
+ */
+export async function listOpenAiCompatibleModels(
+    baseUrl: string,
+    apiKey: string | undefined,
+    token?: vscode.CancellationToken
+): Promise<string[]> {
+    const res = await openRequest(baseUrl, '/models', apiKey, token, undefined, AbortSignal.timeout(LIST_MODELS_TIMEOUT_MS));
+    const data = JSON.parse(await readAll(res)) as { data?: { id?: unknown }[] };
+    return (data.data ?? [])
+        .map(m => m.id)
+        .filter((id): id is string => typeof id === 'string');
+}
+
+/**
+ * リクエストを送り、成功（2xx）した応答を返す。エラーの場合は応答の本文を含めて失敗させる。
+ * signal が中断されると、応答の本文の読み込み中でもリクエストを打ち切る
+ */
+function openRequest(
+    baseUrl: string,
+    path: string,
+    apiKey: string | undefined,
+    token?: vscode.CancellationToken,
+    body?: unknown,
+    signal?: AbortSignal
+): Promise<http.IncomingMessage> {
+    return new Promise((resolve, reject) => {
+        const url = new URL(baseUrl.replace(/\/+$/, '') + path);
+        const payload = body === undefined ? undefined : JSON.stringify(body);
+        const headers: Record<string, string> = { Accept: body === undefined ? 'application/json' : 'text/event-stream' };
+        if (payload !== undefined) {
+            headers['Content-Type'] = 'application/json';
+            headers['Content-Length'] = String(Buffer.byteLength(payload));
+        }
+        if (apiKey) {
+            headers['Authorization'] = `Bearer ${apiKey}`;
+        }
+
+        const transport = url.protocol === 'http:' ? http : https;
+        const req = transport.request(url, { method: payload === undefined ? 'GET' : 'POST', headers, signal }, res => {
+            if (res.statusCode && res.statusCode >= 400) {
+                readAll(res).then(
+                    data => reject(new Error(`OpenAI-compatible API error ${res.statusCode}: ${data.slice(0, 500)}`)),
+                    reject
+                );
+                return;
+            }
+            resolve(res);
+        });
+
+        const cancellation = token?.onCancellationRequested(() => req.destroy(new vscode.CancellationError()));
+        req.on('close', () => cancellation?.dispose());
+        req.on('error', reject);
+
+        if (payload !== undefined) {
+            req.write(payload);
+        }
+        req.end();
+    });
+}
+
+async function readAll(res: http.IncomingMessage): Promise<string> {
+    res.setEncoding('utf-8');
+    let data = '';
+    for await (const chunk of res) {
+        data += chunk;
+    }
+    return data;
+}
+
+/**
+ * Server-Sent Events の `data: {...}` 行から、応答本文の差分（choices[0].delta.content）を順に取り出す。
+ * ツールの呼び出し（delta.tool_calls）は断片を index ごとにつなぎ、応答の最後にまとめて返す
+ */
+async function* readEventStream(res: http.IncomingMessage): AsyncIterable<ResponsePart> {
+    res.setEncoding('utf-8');
+    const toolCalls: { id: string; name: string; arguments: string }[] = [];
+    let buffer = '';
+    let done = false;
+    for await (const chunk of res) {
+        buffer += chunk;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+            const data = line.trim().replace(/^data:\s*/, '');
+            if (!line.trim().startsWith('data:') || !data) { continue; }
+            if (data === '[DONE]') {
+                done = true;
+                break;
+            }
+
+            const event = JSON.parse(data) as {
+                choices?: {
+                    delta?: {
+                        content?: string | null;
+                        tool_calls?: { index?: number; id?: string; function?: { name?: string; arguments?: string } }[];
+                    };
+                }[];
+                error?: { message?: string };
+            };
+            if (event.error) {
+                throw new Error(`OpenAI-compatible API error: ${event.error.message ?? data}`);
+            }
+            const delta = event.choices?.[0]?.delta;
+            if (delta?.content) { yield new vscode.LanguageModelTextPart(delta.content); }
+            for (const call of delta?.tool_calls ?? []) {
+                const entry = toolCalls[call.index ?? toolCalls.length] ??= { id: '', name: '', arguments: '' };
+                entry.id ||= call.id ?? '';
+                entry.name += call.function?.name ?? '';
+                entry.arguments += call.function?.arguments ?? '';
+            }
+        }
+        if (done) { break; }
+    }
+
+    for (const [i, call] of toolCalls.entries()) {
+        if (!call) { continue; }
+        let input: object = {};
+        try {
+            input = JSON.parse(call.arguments || '{}');
+        } catch {
+            // 引数を解析できない場合は空の入力で呼び出し、ツール側のエラーとしてモデルに返す
+        }
+        yield new vscode.LanguageModelToolCallPart(call.id || `call_${i}`, call.name, input);
+    }
+}
+
+async function* textOnly(stream: AsyncIterable<ResponsePart>): AsyncIterable<string> {
+    for await (const part of stream) {
+        if (part instanceof vscode.LanguageModelTextPart) { yield part.value; }
+    }
+}
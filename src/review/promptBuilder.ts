@@ -1,6 +1,10 @@
 import { BacklogIssue, BacklogIssueComment, BacklogPullRequest } from '../backlog/backlogClient';
-import { FileDiff } from '../git/diffAnalyzer';
+import { FileDiff, SkippedFile, getFileDiffPath } from '../git/diffAnalyzer';
 import { DefinitionContext } from './definitionTracker';
+import { ImpactContext } from './impactAnalyzer';
+import { buildFileExcerpt } from './fileExcerpt';
+import { ReviewPreset, getReviewPreset } from './reviewPresets';
+import { buildStructuredOutputSection } from './reviewFindings';
 
 export interface ReviewInput {
     pullRequest?: BacklogPullRequest;
@@ -9,85 +13,282 @@ export interface ReviewInput {
     fileDiffs: FileDiff[];
     fileContents: Map<string, string>;
     definitions: DefinitionContext[];
+    /** 変更された関数・クラスの呼び出し元 */
+    impacts: ImpactContext[];
+    skippedFiles: SkippedFile[];
+    /** 差分の基準にしたマージベース（未指定ならブランチ先端どうしの比較） */
+    mergeBase?: string;
+    /** 差分の取り方に関する注意事項 */
+    notices?: string[];
     maxCharsPerFile: number;
+    /** 長いファイルを抜粋する際に各 hunk の前後に含める行数 */
+    excerptContextLines: number;
     baseBranch: string;
     compareBranch: string;
+    /** 分割レビュー時のバッチ番号（1始まり） */
+    batch?: { index: number; total: number };
+    /** トークン予算の都合でプロンプトから省略・要約したコンテキスト */
+    omittedContent?: OmittedContent[];
+    /** ワークスペースで定義されたプロンプトテンプレート（未指定なら既定のテンプレート） */
+    templates?: PromptTemplates;
+    /** レビュー観点と出力形式のプリセット（未指定なら標準） */
+    preset?: ReviewPreset;
+    /** レビュー結果の出力言語（未指定なら日本語） */
+    outputLanguage?: OutputLanguage;
+    /** モデルに求める応答の形式（未指定なら Markdown） */
+    responseFormat?: ResponseFormat;
+    /** 定義元・呼び出し元を追跡せず、エージェントモードのツールで取得させる */
+    contextByTools?: boolean;
 }
 
-export function buildReviewPrompt(input: ReviewInput): string {
-    const { pullRequest, issue, issueComments, fileDiffs, fileContents, definitions, maxCharsPerFile, baseBranch, compareBranch } = input;
+/** エージェントモードで、定義元・呼び出し元のセクションに代わりに書く案内 */
+const TOOL_CONTEXT_NOTES = {
+    definitions: '（追跡していません。必要な定義元は backlogReview_getDefinition ツールで取得してください）',
+    impacts: '（追跡していません。必要な呼び出し元は backlogReview_getReferences ツールで取得してください）',
+};
+
+export interface PromptTemplates {
+    review?: string;
+    aggregation?: string;
+}
 
-    const issueSection = buildIssueSection(issue, issueComments, pullRequest, baseBranch, compareBranch);
-    const fileSection = buildFileSection(fileDiffs, fileContents, maxCharsPerFile);
-    const definitionSection = buildDefinitionSection(definitions);
-    const diffSection = buildDiffSection(fileDiffs);
+/** トークン上限により省略したコンテキストの種類 */
+export type OmittedSection = 'diff' | 'issue' | 'issueComments' | 'issueDescription' | 'files' | 'impacts' | 'definitions';
 
+export interface OmittedContent {
+    section: OmittedSection;
+    item: string;
+    action: 'omitted' | 'summarized';
+}
+
+/** レビュー結果の出力言語 */
+export type OutputLanguage = 'ja' | 'en';
+
+/** モデルに求める応答の形式（structured: JSON Schema に従う指摘の一覧） */
+export type ResponseFormat = 'markdown' | 'structured';
+
+const OMITTED_SECTION_LABELS: Record<OmittedSection, string> = {
+    diff: '差分',
+    issue: '課題',
+    issueComments: '課題コメント',
+    issueDescription: '課題詳細',
+    files: 'ファイル内容',
+    impacts: '影響範囲',
+    definitions: '定義元',
+};
+
+const LANGUAGE_NAMES: Record<OutputLanguage, string> = {
+    ja: '日本語',
+    en: '英語',
+};
+
+/** 日本語以外で出力する場合に出力形式へ添える指示（見出しの訳語はレビューパネルの色分けと揃える） */
+const LANGUAGE_NOTES: Record<OutputLanguage, string> = {
+    ja: '',
+    en: '※ 見出しを含め、レビュー結果はすべて英語で記述してください。【致命的】【警告】【推奨】【称賛】の見出しはそれぞれ [Critical] [Warning] [Recommended] [Praise] と訳し、「修正案:」は "Suggested fix:" としてください。',
+};
+
+function buildRoleSection(language: OutputLanguage): string {
     return `# Role
-あなたはBacklog Git運用に精通したシニアレビューアーです。厳格かつ建設的なフィードバックを日本語で行ってください。
+あなたはBacklog Git運用に精通したシニアレビューアーです。厳格かつ建設的なフィードバックを${LANGUAGE_NAMES[language]}で行ってください。`;
+}
+
+const EMOJI_NOTE = '※ 重要: Backlogの仕様上、絵文字（Emoji）を含めると保存時にエラーになる場合があるため、出力には絵文字を一切含めないでください。';
+
+const OUTPUT_FORMAT_HEADER = `# Output Format
+以下の形式で、かつ冒頭にレビュー対象の情報を分かりやすく記載してください。
+
+## 【レビュー対象】
+- **課題**: [XXXX-123] 課題名（提供されている場合のみ）
+- **PR**: #123 PR名（提供されている場合のみ）
+- **ブランチ**: \`base\` ← \`compare\`
+`;
+
+/** 出力形式の指摘セクション（プリセットで差し替えられる） */
+const DEFAULT_OUTPUT_SECTIONS = `## 【致命的】仕様漏れ・バグ・セキュリティリスク
+（該当箇所のファイル名・行番号付きで指摘。修正コードを示す場合は、指摘した行範囲をそのまま置き換えられるコードを項目の中の「修正案:」の行に続くコードブロックに記載）
+
+## 【警告】潜在的な問題・要確認事項
+
+## 【推奨】リファクタリング案・改善提案
+（修正コードを示す場合は、指摘した行範囲をそのまま置き換えられるコードを項目の中のコードブロックに記載。問題のあるコードの引用はコードブロックにしない）
+
+## 【称賛】良い実装箇所
+
+## 総評
+（全体的な品質評価と次のアクション）
+`;
 
+/**
+ * レビュープロンプトの既定テンプレート。{{名前}} の部分を各コンテキストで置き換える。
+ * ワークスペースの .backlog-review/prompt.md で差し替えられる（placeholders は README 参照）
+ */
+export const DEFAULT_REVIEW_TEMPLATE = `{{role}}
+{{batch}}
 ---
 
 # Context 1: 開発の目的 (Backlog)
-${issueSection}
+{{issue}}
 
 ---
 
 # Context 2: 変更されたファイルの全体像
-${fileSection}
+各行の先頭は比較ブランチ側の行番号です。長いファイルは変更箇所を囲む関数・クラスと前後の行、ファイル先頭のimport等のみを抜粋しています。
+指摘する際はこの行番号を使って \`ファイル名:行番号\` の形式で箇所を示してください。
+
+{{files}}
 
 ---
 
 # Context 2-extra: 参照先の定義 (Definition Tracking)
-\`vscode.executeDefinitionProvider\` で自動追跡した、変更行から参照されている関数・クラスの定義元です。
+\`vscode.executeDefinitionProvider\` で自動追跡した、変更行から参照されている関数・クラスの定義元（またはシグネチャと型）です。
 
-${definitionSection}
+{{definitions}}
 
 ---
 
-# Context 3: 具体的な変更差分 (Diff)
-ベースブランチ: \`${baseBranch}\` ← 比較ブランチ: \`${compareBranch}\`
+# Context 2-impact: 影響範囲 (Reference Tracking)
+\`vscode.executeReferenceProvider\` で検出した、変更された関数・クラスの呼び出し元です。
+
+{{impacts}}
+
+---
 
-${diffSection}
+# Context 3: 具体的な変更差分 (Diff)
+ベースブランチ: \`{{baseBranch}}\` ← 比較ブランチ: \`{{compareBranch}}\`
+{{diffBaseNote}}
 
+{{diff}}
+{{skippedFiles}}{{omittedContent}}
 ---
 
 # Mission
 以下の観点でコードレビューを実施してください。
 
-1. **仕様適合性**: Context 1の仕様・要件が、Context 3の変更で正しく実装されているか？
-2. **既存ロジックとの整合性**: Context 2の既存コードと矛盾したり、デッドコードを生んでいないか？
-3. **再利用性**: プロジェクト内の他の共通関数やクラスを使わずに、車輪の再発明をしていないか？
-4. **冗長性とパフォーマンス**: 無駄なループや冗長な処理がないか？特にDBクエリにおいて、N+1問題など冗長な実行が発生していないか？
-5. **DB実行計画の考慮**: クエリやORMによるDB処理の実行箇所において、クエリ実行計画（インデックスの使用、フルスキャン回避など）の観点で問題や改善点はないか？
-6. **品質**: コードの可読性、命名、エラーハンドリング、型安全性の観点で問題はないか？
+{{mission}}
 
-※ 重要: Backlogの仕様上、絵文字（Emoji）を含めると保存時にエラーになる場合があるため、出力には絵文字を一切含めないでください。
+{{emojiNote}}
 
 ---
 
-# Output Format
-以下の形式で、かつ冒頭にレビュー対象の情報を分かりやすく記載してください。
+{{outputFormat}}`;
 
-## 【レビュー対象】
-- **課題**: [XXXX-123] 課題名（提供されている場合のみ）
-- **PR**: #123 PR名（提供されている場合のみ）
-- **ブランチ**: \`base\` ← \`compare\`
+/**
+ * 分割レビューの統合プロンプトの既定テンプレート。.backlog-review/aggregate.md で差し替えられる
+ */
+export const DEFAULT_AGGREGATION_TEMPLATE = `{{role}}
 
-## 【致命的】仕様漏れ・バグ・セキュリティリスク
-（該当箇所のファイル名・行番号付きで指摘）
+---
 
-## 【警告】潜在的な問題・要確認事項
+# Context 1: 開発の目的 (Backlog)
+{{issue}}
 
-## 【推奨】リファクタリング案・改善提案
+---
 
-## 【称賛】良い実装箇所
+# Context 2: レビュー対象ファイル ({{fileCount}}件)
+ベースブランチ: \`{{baseBranch}}\` ← 比較ブランチ: \`{{compareBranch}}\`
 
-## 総評
-（全体的な品質評価と次のアクション）
+{{fileList}}
+{{skippedFiles}}
+---
+
+# Context 3: バッチごとのレビュー結果
+変更ファイルが多いため、ファイルを{{batchCount}}個のバッチに分けてレビューしました。
+
+{{batchReviews}}
+
+---
+
+# Mission
+Context 3 のバッチごとのレビュー結果を、1つのレビューレポートに統合してください。
+
+1. **重複の排除**: 同じ問題や同じ原因による指摘は1つにまとめ、該当箇所をすべて列挙してください。
+2. **重要度の統一**: バッチ間で判断がぶれている指摘は、全体を踏まえて適切な重要度に分類し直してください。
+3. **横断的な問題**: 複数バッチにまたがって初めて分かる問題（ファイル間の不整合など）があれば追記してください。
+4. **根拠の保持**: ファイル名・行番号などの根拠は元の指摘から変えずに残してください。新たな推測による指摘は加えないでください。
+5. **総評**: 全バッチを踏まえて1つの総評にまとめてください。
+
+{{emojiNote}}
+
+---
+
+{{outputFormat}}`;
+
+export function buildReviewPrompt(input: ReviewInput): string {
+    const { pullRequest, issue, issueComments, fileDiffs, fileContents, definitions, skippedFiles, maxCharsPerFile, excerptContextLines, baseBranch, compareBranch } = input;
+
+    return renderTemplate(input.templates?.review ?? DEFAULT_REVIEW_TEMPLATE, {
+        ...commonPlaceholders(input),
+        batch: input.batch ? buildBatchSection(input.batch) : '',
+        issue: buildIssueSection(issue, issueComments, pullRequest, baseBranch, compareBranch),
+        files: buildFileSection(fileDiffs, fileContents, maxCharsPerFile, excerptContextLines),
+        definitions: input.contextByTools ? TOOL_CONTEXT_NOTES.definitions : buildDefinitionSection(definitions),
+        impacts: input.contextByTools ? TOOL_CONTEXT_NOTES.impacts : buildImpactSection(input.impacts),
+        diffBaseNote: buildDiffBaseNote(input.mergeBase, input.notices ?? []),
+        diff: buildDiffSection(fileDiffs),
+        skippedFiles: buildSkippedSection(skippedFiles),
+        omittedContent: buildOmittedSection(input.omittedContent ?? []),
+    });
+}
+
+/**
+ * 分割レビューの各バッチ結果を1つのレポートに統合するためのプロンプトを組み立てる
+ */
+export function buildAggregationPrompt(input: ReviewInput, batchReviews: string[]): string {
+    const { pullRequest, issue, issueComments, fileDiffs, skippedFiles, baseBranch, compareBranch } = input;
+
+    return renderTemplate(input.templates?.aggregation ?? DEFAULT_AGGREGATION_TEMPLATE, {
+        ...commonPlaceholders(input),
+        issue: buildIssueSection(issue, issueComments, pullRequest, baseBranch, compareBranch),
+        fileCount: String(fileDiffs.length),
+        fileList: fileDiffs.map(fd => `- \`${getFileDiffPath(fd)}\``).join('\n'),
+        skippedFiles: buildSkippedSection(skippedFiles),
+        batchCount: String(batchReviews.length),
+        batchReviews: batchReviews
+            .map((r, i) => `## バッチ ${i + 1}/${batchReviews.length} のレビュー結果\n\n${r.trim()}`)
+            .join('\n\n---\n\n'),
+    });
+}
+
+/** レビュー・統合の両テンプレートで使える固定部分のプレースホルダ */
+function commonPlaceholders(input: ReviewInput): Record<string, string> {
+    const preset = input.preset ?? getReviewPreset(undefined);
+    const language = input.outputLanguage ?? 'ja';
+    const languageNote = LANGUAGE_NOTES[language] ? `\n${LANGUAGE_NOTES[language]}\n` : '';
+    const outputFormat = input.responseFormat === 'structured'
+        ? buildStructuredOutputSection()
+        : `${OUTPUT_FORMAT_HEADER}\n${preset.outputSections ?? DEFAULT_OUTPUT_SECTIONS}`;
+    return {
+        role: buildRoleSection(language),
+        mission: preset.mission,
+        outputFormat: outputFormat + languageNote,
+        emojiNote: EMOJI_NOTE,
+        baseBranch: input.baseBranch,
+        compareBranch: input.compareBranch,
+    };
+}
+
+/**
+ * テンプレートの {{名前}} を値で置き換える。HTMLコメント（<!-- -->）はテンプレートの説明用として取り除く。
+ * 未知のプレースホルダはそのまま残す
+ */
+export function renderTemplate(template: string, values: Record<string, string>): string {
+    return template
+        .replace(/<!--[\s\S]*?-->\n?/g, '')
+        .replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+            Object.prototype.hasOwnProperty.call(values, name) ? values[name] : match
+        );
+}
+
+function buildBatchSection(batch: { index: number; total: number }): string {
+    return `
+# 分割レビュー
+変更ファイルが多いため、レビューを${batch.total}個のバッチに分けて実施しています。これはバッチ ${batch.index}/${batch.total} です。
+このバッチに含まれるファイルのみを対象に指摘してください。結果は後で他のバッチと統合されます。
 `;
 }
 
-function buildIssueSection(
+export function buildIssueSection(
     issue: BacklogIssue | null,
     comments: BacklogIssueComment[],
     pr: BacklogPullRequest | undefined,
@@ -127,10 +328,11 @@ function buildIssueSection(
     return parts.join('\n');
 }
 
-function buildFileSection(
+export function buildFileSection(
     fileDiffs: FileDiff[],
     fileContents: Map<string, string>,
-    maxCharsPerFile: number
+    maxCharsPerFile: number,
+    excerptContextLines: number
 ): string {
     if (fileContents.size === 0) {
         return '（ファイル内容の取得に失敗しました。差分のあるファイルが検出されなかった可能性があります）';
@@ -138,40 +340,103 @@ function buildFileSection(
 
     const parts: string[] = [];
     for (const [filePath, content] of fileContents) {
-        const truncated = content.length > maxCharsPerFile
-            ? content.slice(0, maxCharsPerFile) + `\n\n... (${content.length - maxCharsPerFile}文字省略)`
-            : content;
+        const fileDiff = fileDiffs.find(fd => getFileDiffPath(fd) === filePath);
+        const excerpt = buildFileExcerpt(content, fileDiff, excerptContextLines, maxCharsPerFile);
         const ext = filePath.split('.').pop() ?? '';
-        parts.push(`### File: \`${filePath}\`\n\`\`\`${ext}\n${truncated}\n\`\`\``);
+        parts.push(`### File: \`${filePath}\`\n\`\`\`${ext}\n${excerpt}\n\`\`\``);
     }
     return parts.join('\n\n');
 }
 
-function buildDefinitionSection(definitions: DefinitionContext[]): string {
+export function buildDefinitionSection(definitions: DefinitionContext[]): string {
     if (definitions.length === 0) {
         return '（変更行から外部定義への参照が検出されませんでした）';
     }
 
     const grouped = new Map<string, DefinitionContext[]>();
-    for (const def of definitions) {
+    for (const def of definitions.filter(d => d.kind === 'block')) {
         const existing = grouped.get(def.definitionFile) ?? [];
         existing.push(def);
         grouped.set(def.definitionFile, existing);
     }
 
     const parts: string[] = [];
+    const signatures = definitions.filter(d => d.kind === 'signature');
+    if (signatures.length > 0) {
+        parts.push(buildSignatureTable(signatures));
+    }
     for (const [file, defs] of grouped) {
         const symbols = [...new Set(defs.map(d => `\`${d.symbolName}\``))].join(', ');
-        const ext = file.split('.').pop() ?? '';
+        const language = defs[0].languageId || (file.split('.').pop() ?? '');
         parts.push(
             `### 定義元: \`${file}\` (シンボル: ${symbols})\n` +
-            `\`\`\`${ext}\n${defs[0].definitionContent.trim()}\n\`\`\``
+            `\`\`\`${language}\n${defs[0].definitionContent.trim()}\n\`\`\``
         );
     }
     return parts.join('\n\n');
 }
 
-function buildDiffSection(fileDiffs: FileDiff[]): string {
+/** signature モードで収集したシグネチャと型の形を、シンボル表として重複なく並べる */
+function buildSignatureTable(signatures: DefinitionContext[]): string {
+    const seenSymbols = new Set<string>();
+    const seenTypes = new Set<string>();
+    const rows: string[] = [];
+    const types: string[] = [];
+
+    for (const sig of signatures) {
+        const key = `${sig.symbolName}\0${sig.definitionContent}`;
+        if (!seenSymbols.has(key)) {
+            seenSymbols.add(key);
+            rows.push(
+                `- \`${sig.symbolName}\` (\`${sig.definitionFile}:${sig.startLine}\`)\n` +
+                `  \`\`\`${sig.languageId}\n${indent(sig.definitionContent.trim(), '  ')}\n  \`\`\``
+            );
+        }
+        if (sig.typeDefinitionFile && sig.typeDefinitionContent && !seenTypes.has(sig.typeDefinitionFile)) {
+            seenTypes.add(sig.typeDefinitionFile);
+            types.push(
+                `- \`${sig.typeDefinitionFile}\`\n` +
+                `  \`\`\`${sig.languageId}\n${indent(sig.typeDefinitionContent.trim(), '  ')}\n  \`\`\``
+            );
+        }
+    }
+
+    const parts = [`### シンボル表 (シグネチャ)\n${rows.join('\n')}`];
+    if (types.length > 0) {
+        parts.push(`### 参照されている型の定義\n${types.join('\n')}`);
+    }
+    return parts.join('\n\n');
+}
+
+function indent(text: string, prefix: string): string {
+    return text.split('\n').map(line => prefix + line).join('\n');
+}
+
+export function buildImpactSection(impacts: ImpactContext[]): string {
+    if (impacts.length === 0) {
+        return '（変更された関数・クラスの呼び出し元は検出されませんでした）';
+    }
+
+    const grouped = new Map<string, ImpactContext[]>();
+    for (const impact of impacts) {
+        const key = `${impact.originFile}\0${impact.symbolName}`;
+        const existing = grouped.get(key) ?? [];
+        existing.push(impact);
+        grouped.set(key, existing);
+    }
+
+    const parts: string[] = [];
+    for (const refs of grouped.values()) {
+        const { symbolName, originFile } = refs[0];
+        const sites = refs.map(r =>
+            `- \`${r.referenceFile}:${r.line}\`\n\`\`\`${r.languageId}\n${r.snippet}\n\`\`\``
+        );
+        parts.push(`### \`${symbolName}\` (\`${originFile}\`) の呼び出し元 ${refs.length}件\n${sites.join('\n')}`);
+    }
+    return parts.join('\n\n');
+}
+
+export function buildDiffSection(fileDiffs: FileDiff[]): string {
     if (fileDiffs.length === 0) {
         return '（差分なし、またはファイル変更が検出されませんでした）';
     }
@@ -179,3 +444,31 @@ function buildDiffSection(fileDiffs: FileDiff[]): string {
         .map(fd => `### ${fd.newPath || fd.oldPath}\n\`\`\`diff\n${fd.unifiedDiff}\n\`\`\``)
         .join('\n\n');
 }
+
+function buildDiffBaseNote(mergeBase: string | undefined, notices: string[]): string {
+    const lines = [
+        mergeBase
+            ? `差分の基準: マージベース \`${mergeBase.slice(0, 10)}\` からの変更 (three-dot diff)`
+            : '差分の基準: ブランチ先端どうしの比較',
+        ...notices.map(n => `> 注意: ${n}`),
+    ];
+    return lines.join('\n');
+}
+
+function buildSkippedSection(skippedFiles: SkippedFile[]): string {
+    if (skippedFiles.length === 0) { return ''; }
+    const lines = skippedFiles.map(f => `- \`${f.path}\`: ${f.reason}`);
+    return `\n### レビュー対象外のファイル (${skippedFiles.length}件)\n` +
+        '以下のファイルは変更がありますが差分に含まれていません。内容を推測して指摘しないでください。\n\n' +
+        lines.join('\n') + '\n';
+}
+
+export function buildOmittedSection(omitted: OmittedContent[]): string {
+    if (omitted.length === 0) { return ''; }
+    const lines = omitted.map(o =>
+        `- ${OMITTED_SECTION_LABELS[o.section]}: \`${o.item}\` (${o.action === 'summarized' ? '要約のみ' : '省略'})`
+    );
+    return `\n### トークン上限により省略したコンテキスト (${omitted.length}件)\n` +
+        '以下はモデルの入力上限に収めるため省略・要約しました。省略された内容を推測して指摘しないでください。\n\n' +
+        lines.join('\n') + '\n';
+}
@@ -0,0 +1,231 @@
+import * as vscode from 'vscode';
+import { FileDiff, getFileDiffPath } from '../git/diffAnalyzer';
+import {
+    OmittedContent,
+    ReviewInput,
+    buildDefinitionSection,
+    buildDiffSection,
+    buildFileSection,
+    buildImpactSection,
+    buildIssueSection,
+    buildOmittedSection,
+    buildReviewPrompt,
+} from './promptBuilder';
+import { DefinitionContext } from './definitionTracker';
+import { ReviewModel } from './modelProvider';
+import { ImpactContext } from './impactAnalyzer';
+
+/** 応答用の余白を残すため、プロンプトには maxInputTokens のこの割合までを使う */
+const PROMPT_BUDGET_RATIO = 0.8;
+
+export interface PackedPrompt {
+    prompt: string;
+    omittedContent: OmittedContent[];
+}
+
+export function getPromptBudget(model: ReviewModel): number {
+    return Math.floor(model.maxInputTokens * PROMPT_BUDGET_RATIO);
+}
+
+/**
+ * モデルの入力トークン上限に収まるようにレビュープロンプトを組み立てる。
+ * 差分 → 課題の仕様 → 変更ファイルの内容 → 影響範囲 → 定義元 の優先順で詰め、
+ * 入りきらないものは優先度の低い順に要約・省略してプロンプト内に記録する。
+ */
+export async function packReviewPrompt(
+    input: ReviewInput,
+    model: ReviewModel,
+    cancellationToken: vscode.CancellationToken
+): Promise<PackedPrompt> {
+    const count = (text: string) => model.countTokens(text, cancellationToken);
+
+    // そのまま収まる場合は何もしない
+    const fullPrompt = buildReviewPrompt(input);
+    const budget = getPromptBudget(model);
+    if (await count(fullPrompt) <= budget) {
+        return { prompt: fullPrompt, omittedContent: input.omittedContent ?? [] };
+    }
+
+    const omittedContent: OmittedContent[] = [...(input.omittedContent ?? [])];
+    const skeleton: ReviewInput = {
+        ...input,
+        issue: null,
+        issueComments: [],
+        fileDiffs: [],
+        fileContents: new Map(),
+        definitions: [],
+        impacts: [],
+    };
+    let remaining = budget - await count(buildReviewPrompt(skeleton));
+
+    // 省略の記録もプロンプトに載るため、記録するたびにその分を残りから差し引く
+    let omittedCost = await count(buildOmittedSection(omittedContent));
+    const omit = async (entry: OmittedContent) => {
+        omittedContent.push(entry);
+        const cost = await count(buildOmittedSection(omittedContent));
+        remaining -= cost - omittedCost;
+        omittedCost = cost;
+    };
+
+    // 1. 差分（入りきらない場合は hunk 見出しだけの要約にする）
+    const fileDiffs: FileDiff[] = [];
+    for (const fd of input.fileDiffs) {
+        const cost = await count(buildDiffSection([fd]));
+        if (cost <= remaining) {
+            fileDiffs.push(fd);
+            remaining -= cost;
+            continue;
+        }
+
+        const summarized = { ...fd, unifiedDiff: summarizeDiff(fd) };
+        const summaryCost = await count(buildDiffSection([summarized]));
+        const item = getFileDiffPath(fd);
+        if (summaryCost <= remaining) {
+            fileDiffs.push(summarized);
+            remaining -= summaryCost;
+            await omit({ section: 'diff', item, action: 'summarized' });
+        } else {
+            await omit({ section: 'diff', item, action: 'omitted' });
+        }
+    }
+
+    // 2. 課題の仕様（コメント → 課題詳細 → 課題そのもの の順に削る）
+    //    PR・ブランチの情報は骨組みに含めて数えているため、課題の分だけを差し引く
+    let issue = input.issue;
+    let issueComments = input.issueComments;
+    const issueCost = () => count(
+        buildIssueSection(issue, issueComments, input.pullRequest, input.baseBranch, input.compareBranch)
+    );
+    const issueBaseCost = await count(buildIssueSection(null, [], input.pullRequest, input.baseBranch, input.compareBranch));
+    let cost = await issueCost() - issueBaseCost;
+    if (cost > remaining && issueComments.length > 0) {
+        issueComments = [];
+        await omit({ section: 'issueComments', item: issue?.issueKey ?? '', action: 'omitted' });
+        cost = await issueCost() - issueBaseCost;
+    }
+    if (cost > remaining && issue?.description) {
+        issue = { ...issue, description: '' };
+        await omit({ section: 'issueDescription', item: issue.issueKey, action: 'omitted' });
+        cost = await issueCost() - issueBaseCost;
+    }
+    if (cost > remaining && issue) {
+        await omit({ section: 'issue', item: issue.issueKey, action: 'omitted' });
+        issue = null;
+        cost = 0;
+    }
+    remaining -= cost;
+
+    // 3. 変更ファイルの内容（抜粋の範囲は実際に載せる差分で決まるため、詰めた後の差分で数える）
+    const fileContents = new Map<string, string>();
+    for (const [filePath, content] of input.fileContents) {
+        const fileCost = await count(
+            buildFileSection(fileDiffs, new Map([[filePath, content]]), input.maxCharsPerFile, input.excerptContextLines)
+        );
+        if (fileCost <= remaining) {
+            fileContents.set(filePath, content);
+            remaining -= fileCost;
+        } else {
+            await omit({ section: 'files', item: filePath, action: 'omitted' });
+        }
+    }
+
+    // 4. 影響範囲（呼び出し元）
+    const impacts: ImpactContext[] = [];
+    for (const impact of input.impacts) {
+        const impactCost = await count(buildImpactSection([impact]));
+        if (impactCost <= remaining) {
+            impacts.push(impact);
+            remaining -= impactCost;
+        } else {
+            await omit({ section: 'impacts', item: formatImpactItem(impact), action: 'omitted' });
+        }
+    }
+
+    // 5. 定義元
+    const definitions: DefinitionContext[] = [];
+    for (const def of input.definitions) {
+        const defCost = await count(buildDefinitionSection([def]));
+        if (defCost <= remaining) {
+            definitions.push(def);
+            remaining -= defCost;
+        } else {
+            await omit({ section: 'definitions', item: formatDefinitionItem(def), action: 'omitted' });
+        }
+    }
+
+    // 6. 各セクションを個別に数えた合計と実際のプロンプトは一致しないことがあるため、
+    //    組み立てたプロンプトを数え直し、超えている間は優先度の低いものから削る
+    const build = () => buildReviewPrompt({
+        ...input,
+        issue,
+        issueComments,
+        fileDiffs,
+        fileContents,
+        definitions,
+        impacts,
+        omittedContent,
+    });
+    let prompt = build();
+    while (await count(prompt) > budget) {
+        const def = definitions.pop();
+        const impact = def ? undefined : impacts.pop();
+        const filePath = def || impact ? undefined : [...fileContents.keys()].pop();
+        if (def) {
+            omittedContent.push({ section: 'definitions', item: formatDefinitionItem(def), action: 'omitted' });
+        } else if (impact) {
+            omittedContent.push({ section: 'impacts', item: formatImpactItem(impact), action: 'omitted' });
+        } else if (filePath !== undefined) {
+            fileContents.delete(filePath);
+            omittedContent.push({ section: 'files', item: filePath, action: 'omitted' });
+        } else if (issueComments.length > 0) {
+            issueComments = [];
+            omittedContent.push({ section: 'issueComments', item: issue?.issueKey ?? '', action: 'omitted' });
+        } else if (issue?.description) {
+            issue = { ...issue, description: '' };
+            omittedContent.push({ section: 'issueDescription', item: issue.issueKey, action: 'omitted' });
+        } else if (issue) {
+            omittedContent.push({ section: 'issue', item: issue.issueKey, action: 'omitted' });
+            issue = null;
+        } else if (!trimLastDiff(fileDiffs, omittedContent)) {
+            // これ以上削れるものがない（骨組みだけで上限を超えている）
+            break;
+        }
+        prompt = build();
+    }
+    return { prompt, omittedContent };
+}
+
+function formatImpactItem(impact: ImpactContext): string {
+    return `${impact.referenceFile}:${impact.line} (${impact.symbolName})`;
+}
+
+function formatDefinitionItem(def: DefinitionContext): string {
+    return `${def.definitionFile} (${def.symbolName})`;
+}
+
+/** 最後の差分を要約にする（要約済みなら省く）。削れる差分がなければ false を返す */
+function trimLastDiff(fileDiffs: FileDiff[], omittedContent: OmittedContent[]): boolean {
+    const fd = fileDiffs.pop();
+    if (!fd) { return false; }
+
+    const item = getFileDiffPath(fd);
+    const recorded = omittedContent.find(o => o.section === 'diff' && o.item === item);
+    if (recorded) {
+        recorded.action = 'omitted';
+        return true;
+    }
+    fileDiffs.push({ ...fd, unifiedDiff: summarizeDiff(fd) });
+    omittedContent.push({ section: 'diff', item, action: 'summarized' });
+    return true;
+}
+
+/** 差分本文を落とし、ファイルヘッダと hunk 見出し・増減行数だけを残す */
+function summarizeDiff(fd: FileDiff): string {
+    const lines = [`--- ${fd.oldPath}`, `+++ ${fd.newPath}`];
+    for (const hunk of fd.hunks) {
+        const added = hunk.lines.filter(l => l.startsWith('+')).length;
+        const removed = hunk.lines.filter(l => l.startsWith('-')).length;
+        lines.push(`@@ -${hunk.oldStart} +${hunk.newStart} @@ (+${added} -${removed} 行、本文はトークン上限のため省略)`);
+    }
+    return lines.join('\n');
+}
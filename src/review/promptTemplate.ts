@@ -0,0 +1,75 @@
+import * as vscode from 'vscode';
+import { DEFAULT_AGGREGATION_TEMPLATE, DEFAULT_REVIEW_TEMPLATE, PromptTemplates } from './promptBuilder';
+
+/** リポジトリで定義するプロンプトテンプレートの置き場所（リポジトリのルートからの相対パス） */
+export const REVIEW_TEMPLATE_PATH = '.backlog-review/prompt.md';
+export const AGGREGATION_TEMPLATE_PATH = '.backlog-review/aggregate.md';
+
+/** 新規作成するテンプレートの先頭に付ける説明（HTMLコメントはプロンプトから取り除かれる） */
+const TEMPLATE_HEADER = `<!--
+Backlog AI Reviewer のプロンプトテンプレートです。{{名前}} の部分がレビュー時の内容に置き換わります。
+このコメントはプロンプトには含まれません。
+
+  {{role}}           レビューアーの役割の説明
+  {{batch}}          分割レビュー時のバッチの説明（分割しない場合は空）
+  {{issue}}          Backlog の課題・PR の情報
+  {{files}}          変更されたファイルの内容（行番号付き）
+  {{definitions}}    変更行から参照されている定義元
+  {{impacts}}        変更された関数・クラスの呼び出し元（影響範囲）
+  {{diff}}           変更差分
+  {{diffBaseNote}}   差分の基準（マージベース等）と注意事項
+  {{baseBranch}}     ベースブランチ名
+  {{compareBranch}}  比較ブランチ名
+  {{skippedFiles}}   レビュー対象外にしたファイル
+  {{omittedContent}} トークン上限のため省略したコンテキスト
+  {{mission}}        選択中のプリセットのレビュー観点の一覧
+  {{emojiNote}}      絵文字を出力しないよう求める注意書き
+  {{outputFormat}}   選択中のプリセットの出力形式
+
+{{mission}} を独自の観点の一覧に書き換えると、既定の観点（DB実行計画など）を外したり、
+アクセシビリティやログ規約などの観点を追加したりできます。
+-->
+`;
+
+/**
+ * ワークスペースのテンプレートファイルを読み込む。
+ * preferredRoot（レビュー対象のリポジトリ）→ 各ワークスペースフォルダ の順に探し、見つからなければ既定のテンプレートを使う
+ */
+export async function loadPromptTemplates(preferredRoot?: string): Promise<PromptTemplates> {
+    const roots = [
+        ...(preferredRoot ? [vscode.Uri.file(preferredRoot)] : []),
+        ...(vscode.workspace.workspaceFolders ?? []).map(f => f.uri),
+    ];
+
+    return {
+        review: await readFirst(roots, REVIEW_TEMPLATE_PATH),
+        aggregation: await readFirst(roots, AGGREGATION_TEMPLATE_PATH),
+    };
+}
+
+async function readFirst(roots: vscode.Uri[], relativePath: string): Promise<string | undefined> {
+    for (const root of roots) {
+        try {
+            const bytes = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(root, relativePath));
+            const text = Buffer.from(bytes).toString('utf-8');
+            if (text.trim()) { return text; }
+        } catch {
+            // このフォルダにはテンプレートがない
+        }
+    }
+    return undefined;
+}
+
+/**
+ * 既定のテンプレートをワークスペースフォルダに書き出して開く（既存のファイルは上書きしない）
+ */
+export async function createPromptTemplateFile(folder: vscode.Uri, kind: 'review' | 'aggregation'): Promise<vscode.Uri> {
+    const uri = vscode.Uri.joinPath(folder, kind === 'review' ? REVIEW_TEMPLATE_PATH : AGGREGATION_TEMPLATE_PATH);
+    try {
+        await vscode.workspace.fs.stat(uri);
+    } catch {
+        const body = kind === 'review' ? DEFAULT_REVIEW_TEMPLATE : DEFAULT_AGGREGATION_TEMPLATE;
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(TEMPLATE_HEADER + body + '\n', 'utf-8'));
+    }
+    return uri;
+}
@@ -0,0 +1,78 @@
+import * as vscode from 'vscode';
+
+/**
+ * 言語機能のプロバイダコマンド（vscode.executeDefinitionProvider 等）を、
+ * 同時実行数とタイムアウトを制限して実行する
+ */
+export class ProviderExecutor {
+    private running = 0;
+    private readonly waiting: (() => void)[] = [];
+    /** 実行したコマンド数とタイムアウトした数（進捗表示用） */
+    public calls = 0;
+    public timeouts = 0;
+
+    constructor(
+        private readonly concurrency: number,
+        private readonly timeoutMs: number
+    ) { }
+
+    /**
+     * コマンドを実行する。エラー時は undefined を返し、タイムアウト時は例外を投げる。
+     * タイムアウトしてもプロバイダの処理は止まらないため、実際に応答が返るまで実行枠は解放しない
+     */
+    async execute<T>(command: string, ...args: unknown[]): Promise<T | undefined> {
+        await this.acquire();
+        this.calls++;
+        const call = Promise.resolve(vscode.commands.executeCommand<T>(command, ...args))
+            .catch(() => undefined)
+            .finally(() => this.release());
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+                this.timeouts++;
+                reject(new Error(`${command} が ${this.timeoutMs}ms 以内に応答しませんでした`));
+            }, this.timeoutMs);
+        });
+        try {
+            return await Promise.race([call, timeout]);
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    private acquire(): Promise<void> {
+        if (this.running < Math.max(this.concurrency, 1)) {
+            this.running++;
+            return Promise.resolve();
+        }
+        return new Promise(resolve => this.waiting.push(() => {
+            this.running++;
+            resolve();
+        }));
+    }
+
+    private release(): void {
+        this.running--;
+        this.waiting.shift()?.();
+    }
+}
+
+/**
+ * items を最大 concurrency 件ずつ並列に処理する（結果は items の順）
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    concurrency: number,
+    worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const runners = Array.from({ length: Math.min(Math.max(concurrency, 1), items.length) }, async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await worker(items[index], index);
+        }
+    });
+    await Promise.all(runners);
+    return results;
+}
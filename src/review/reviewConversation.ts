@@ -0,0 +1,53 @@
+import * as vscode from 'vscode';
+import { collectResponse } from './aiReviewer';
+import { ReviewModel } from './modelProvider';
+
+export interface FollowUpTurn {
+    question: string;
+    answer: string;
+}
+
+/**
+ * レビュー結果に対するフォローアップの会話。
+ * レビューに使ったプロンプトとレビュー結果を履歴の先頭に置き、同じモデルに質問を続ける
+ */
+export class ReviewConversation {
+    private readonly turns: FollowUpTurn[] = [];
+
+    constructor(
+        private readonly model: ReviewModel,
+        private readonly prompt: string,
+        private readonly review: string
+    ) { }
+
+    get history(): readonly FollowUpTurn[] {
+        return this.turns;
+    }
+
+    async ask(
+        question: string,
+        cancellationToken: vscode.CancellationToken,
+        onChunk?: (chunk: string) => void
+    ): Promise<string> {
+        const messages = [
+            vscode.LanguageModelChatMessage.User(this.prompt),
+            vscode.LanguageModelChatMessage.Assistant(this.review),
+            ...this.turns.flatMap(t => [
+                vscode.LanguageModelChatMessage.User(t.question),
+                vscode.LanguageModelChatMessage.Assistant(t.answer),
+            ]),
+            vscode.LanguageModelChatMessage.User(question),
+        ];
+
+        const answer = await collectResponse(this.model, messages, cancellationToken, onChunk);
+        this.turns.push({ question, answer });
+        return answer;
+    }
+
+    /** フォローアップのやり取りを、レポートの後ろに付けて投稿するための Markdown に整形する */
+    formatThreadAsMarkdown(): string {
+        if (this.turns.length === 0) { return ''; }
+        const turns = this.turns.map(t => `### Q: ${t.question.trim()}\n\n${t.answer.trim()}`);
+        return `\n\n---\n\n## ${vscode.l10n.t('Follow-up questions')}\n\n${turns.join('\n\n')}\n`;
+    }
+}
@@ -0,0 +1,346 @@
+import type { OutputLanguage } from './promptBuilder';
+
+export type FindingSeverity = 'critical' | 'warning' | 'recommend' | 'praise';
+
+/** 構造化モードでモデルが返す1件の指摘 */
+export interface ReviewFinding {
+    /** リポジトリのルートからの相対パス */
+    file: string;
+    /** 比較ブランチ側の行番号（1始まり、両端を含む） */
+    startLine: number;
+    endLine: number;
+    severity: FindingSeverity;
+    /** 指摘の観点（例: バグ、セキュリティ、パフォーマンス） */
+    category: string;
+    message: string;
+    /** 修正案のコード・説明（任意） */
+    suggestedFix?: string;
+}
+
+export interface StructuredReview {
+    summary: string;
+    findings: ReviewFinding[];
+}
+
+export const SEVERITY_ORDER: FindingSeverity[] = ['critical', 'warning', 'recommend', 'praise'];
+
+/** 構造化モードの出力の JSON Schema。プロンプトでモデルに示し、同じ定義で応答を検証する */
+export const STRUCTURED_REVIEW_SCHEMA: JsonSchema = {
+    type: 'object',
+    required: ['summary', 'findings'],
+    properties: {
+        summary: { type: 'string' },
+        findings: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['file', 'startLine', 'endLine', 'severity', 'category', 'message'],
+                properties: {
+                    file: { type: 'string' },
+                    startLine: { type: 'integer', minimum: 1 },
+                    endLine: { type: 'integer', minimum: 1 },
+                    severity: { type: 'string', enum: SEVERITY_ORDER },
+                    category: { type: 'string' },
+                    message: { type: 'string' },
+                    suggestedFix: { type: 'string' },
+                },
+            },
+        },
+    },
+};
+
+/** 検証に使う JSON Schema のサブセット */
+interface JsonSchema {
+    type: 'object' | 'array' | 'string' | 'integer';
+    required?: string[];
+    properties?: Record<string, JsonSchema>;
+    items?: JsonSchema;
+    enum?: readonly string[];
+    minimum?: number;
+}
+
+export type StructuredParseResult =
+    | { ok: true; review: StructuredReview }
+    | { ok: false; error: string };
+
+/**
+ * モデルの応答から JSON を取り出し、STRUCTURED_REVIEW_SCHEMA で検証する。
+ * コードフェンスや前後の説明文が付いていても、最初の { から最後の } までを JSON として扱う
+ */
+export function parseStructuredReview(text: string): StructuredParseResult {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start < 0 || end <= start) {
+        return { ok: false, error: 'JSONオブジェクトが見つかりません' };
+    }
+
+    let value: unknown;
+    try {
+        value = JSON.parse(text.slice(start, end + 1));
+    } catch (e) {
+        return { ok: false, error: `JSONとして解析できません: ${e instanceof Error ? e.message : String(e)}` };
+    }
+
+    const errors = validateSchema(value, STRUCTURED_REVIEW_SCHEMA, '$');
+    if (errors.length > 0) {
+        return { ok: false, error: errors.slice(0, 5).join('\n') };
+    }
+
+    const review = value as StructuredReview;
+    return {
+        ok: true,
+        review: {
+            summary: review.summary,
+            findings: review.findings.map(f => ({ ...f, endLine: Math.max(f.endLine, f.startLine) })),
+        },
+    };
+}
+
+function validateSchema(value: unknown, schema: JsonSchema, path: string): string[] {
+    switch (schema.type) {
+        case 'string':
+            if (typeof value !== 'string') { return [`${path}: 文字列ではありません`]; }
+            if (schema.enum && !schema.enum.includes(value)) {
+                return [`${path}: ${schema.enum.join(' / ')} のいずれかである必要があります`];
+            }
+            return [];
+        case 'integer':
+            if (typeof value !== 'number' || !Number.isInteger(value)) { return [`${path}: 整数ではありません`]; }
+            if (schema.minimum !== undefined && value < schema.minimum) {
+                return [`${path}: ${schema.minimum} 以上である必要があります`];
+            }
+            return [];
+        case 'array':
+            if (!Array.isArray(value)) { return [`${path}: 配列ではありません`]; }
+            return value.flatMap((item, i) => validateSchema(item, schema.items!, `${path}[${i}]`));
+        case 'object': {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                return [`${path}: オブジェクトではありません`];
+            }
+            const record = value as Record<string, unknown>;
+            const errors = (schema.required ?? [])
+                .filter(key => record[key] === undefined)
+                .map(key => `${path}.${key}: 必須です`);
+            for (const [key, propSchema] of Object.entries(schema.properties ?? {})) {
+                if (record[key] !== undefined) {
+                    errors.push(...validateSchema(record[key], propSchema, `${path}.${key}`));
+                }
+            }
+            return errors;
+        }
+    }
+}
+
+/** プロンプトの出力形式として示す、構造化モードの指示 */
+export function buildStructuredOutputSection(): string {
+    return `# Output Format
+レビュー結果は、次の JSON Schema に従う JSON オブジェクト1つだけを出力してください。JSON 以外の文章やコードフェンスは付けないでください。
+
+\`\`\`json
+${JSON.stringify(STRUCTURED_REVIEW_SCHEMA, null, 2)}
+\`\`\`
+
+- **file**: 変更されたファイルのパス（Context 2 の見出しと同じ表記）
+- **startLine** / **endLine**: 指摘箇所の比較ブランチ側の行番号（Context 2 の行番号）
+- **severity**: critical（仕様漏れ・バグ・セキュリティリスク）/ warning（潜在的な問題・要確認事項）/ recommend（リファクタリング案・改善提案）/ praise（良い実装箇所）
+- **category**: 指摘の観点（例: バグ、セキュリティ、パフォーマンス、可読性）
+- **message**: 指摘の内容と理由
+- **suggestedFix**: 修正案（ある場合のみ）。startLine〜endLine の行をそのまま置き換えられるコードだけを書き、説明は message に含めてください
+- **summary**: 全体的な品質評価と次のアクション
+`;
+}
+
+const SEVERITY_HEADINGS: Record<OutputLanguage, Record<FindingSeverity, string>> = {
+    ja: {
+        critical: '【致命的】仕様漏れ・バグ・セキュリティリスク',
+        warning: '【警告】潜在的な問題・要確認事項',
+        recommend: '【推奨】リファクタリング案・改善提案',
+        praise: '【称賛】良い実装箇所',
+    },
+    en: {
+        critical: '[Critical] Missing requirements, bugs and security risks',
+        warning: '[Warning] Potential issues and points to confirm',
+        recommend: '[Recommended] Refactoring and improvements',
+        praise: '[Praise] Good implementation',
+    },
+};
+
+const SUMMARY_HEADINGS: Record<OutputLanguage, { summary: string; fix: string }> = {
+    ja: { summary: '総評', fix: '修正案' },
+    en: { summary: 'Summary', fix: 'Suggested fix' },
+};
+
+/**
+ * 構造化された指摘を Backlog へのコメント投稿・エクスポート用の Markdown に整形する
+ */
+export function formatStructuredReviewAsMarkdown(review: StructuredReview, language: OutputLanguage): string {
+    const sections: string[] = [];
+    for (const severity of SEVERITY_ORDER) {
+        const findings = review.findings.filter(f => f.severity === severity);
+        if (findings.length === 0) { continue; }
+
+        const items = findings.map(f => {
+            // 複数行の内容や修正案も1つの箇条書き項目に収まるよう、空行を詰めて続く行を字下げする
+            const message = f.message.trim().split('\n').filter(line => line.trim() !== '').join('\n');
+            const lines = [`- **\`${formatFindingLocation(f)}\`** [${f.category}] ${message}`];
+            if (f.suggestedFix) {
+                lines.push(`${SUMMARY_HEADINGS[language].fix}:`, '```', f.suggestedFix.trim(), '```');
+            }
+            return lines.join('\n').replace(/\n/g, '\n  ');
+        });
+        sections.push(`## ${SEVERITY_HEADINGS[language][severity]}\n${items.join('\n')}`);
+    }
+    sections.push(`## ${SUMMARY_HEADINGS[language].summary}\n${review.summary}`);
+    return sections.join('\n\n') + '\n';
+}
+
+export function formatFindingLocation(finding: ReviewFinding): string {
+    return finding.startLine === finding.endLine
+        ? `${finding.file}:${finding.startLine}`
+        : `${finding.file}:${finding.startLine}-${finding.endLine}`;
+}
+
+/** `src/foo.ts:12` や `src/foo.ts:12-18` 形式の箇所の参照 */
+export const CITATION_PATTERN = /`?([\w./@-]+\.\w+):(\d+)(?:\s*[-~]\s*(\d+))?`?/g;
+
+export interface MarkdownItem {
+    text: string;
+    isListItem: boolean;
+}
+
+/** Markdown をトップレベルの箇条書き項目（続く字下げ行・コードブロックを含む）とそれ以外の行に分ける */
+export function splitListItems(markdown: string): MarkdownItem[] {
+    const items: MarkdownItem[] = [];
+    let current: MarkdownItem | undefined;
+    let inFence = false;
+
+    for (const line of markdown.split('\n')) {
+        const isFence = line.trimStart().startsWith('```');
+        if (!inFence && /^([-*]|\d+\.) /.test(line)) {
+            current = { text: line, isListItem: true };
+            items.push(current);
+        } else if (current && (inFence || isFence || /^\s+\S/.test(line))) {
+            current.text += '\n' + line;
+        } else {
+            current = undefined;
+            items.push({ text: line, isListItem: false });
+        }
+        if (isFence) { inFence = !inFence; }
+    }
+    return items;
+}
+
+/** 字下げされていてもよいコードフェンス（```lang ... ```） */
+const FENCED_CODE_PATTERN = /^([ \t]*)```([\w+-]*)[ \t]*\n([\s\S]*?)\n[ \t]*```[ \t]*$/m;
+
+/**
+ * 修正案から、指摘箇所の行と置き換えるコードを取り出す。
+ * コードフェンスがあれば最初のブロックの中身（diff の場合は変更後の行）を、なければ全体をコードとして扱う
+ */
+export function extractFixCode(suggestedFix: string): string {
+    const fence = suggestedFix.match(FENCED_CODE_PATTERN);
+    if (!fence) { return suggestedFix.replace(/^\n+|\s+$/g, ''); }
+
+    const [, indent, language, body] = fence;
+    const code = dedent(body, indent);
+    if (language !== 'diff') { return code; }
+    return code
+        .split('\n')
+        .filter(line => !line.startsWith('-') && !line.startsWith('+++') && !line.startsWith('@@'))
+        .map(line => /^[+ ]/.test(line) ? line.slice(1) : line)
+        .join('\n');
+}
+
+/** 修正案を表示用の Markdown にする（コードフェンスがなければ全体をコードブロックにする） */
+export function formatFixAsMarkdown(suggestedFix: string): string {
+    return FENCED_CODE_PATTERN.test(suggestedFix)
+        ? suggestedFix.trim()
+        : `\`\`\`\n${suggestedFix.trim()}\n\`\`\``;
+}
+
+/** 箇条書きの中で字下げされたコードフェンスの中身から、フェンスと同じ字下げを取り除く */
+function dedent(body: string, indent: string): string {
+    return body.split('\n').map(line => line.startsWith(indent) ? line.slice(indent.length) : line.trimStart()).join('\n');
+}
+
+/** Markdown の見出し（【致命的】/【警告】/【推奨】/【称賛】や英語の見出し）から重要度を判定する */
+export function severityFromHeading(heading: string): FindingSeverity | undefined {
+    if (/致命的|Critical/i.test(heading)) { return 'critical'; }
+    if (/警告|Warning/i.test(heading)) { return 'warning'; }
+    if (/推奨|Recommend/i.test(heading)) { return 'recommend'; }
+    if (/称賛|Praise/i.test(heading)) { return 'praise'; }
+    return undefined;
+}
+
+/** 項目の中で修正案のコードブロックの前に置く見出し（構造化モードの Markdown と同じ「修正案:」「Suggested fix:」） */
+const FIX_LABEL_PATTERN = /(?:修正案|Suggested fix)\s*[:：]/i;
+
+/**
+ * 項目の中の修正案のコードブロックを探す。【推奨】の項目は最初のコードブロックを、それ以外は「修正案:」の後のものだけを修正案とする
+ * （【致命的】【警告】の項目のコードブロックは問題のあるコードの引用であることが多いため）
+ * @returns 修正案と、内容から除く範囲（見出しを含む）
+ */
+function findFix(text: string, severity: FindingSeverity): { fix: string; start: number; end: number } | undefined {
+    const label = text.match(FIX_LABEL_PATTERN);
+    if (!label && severity !== 'recommend') { return undefined; }
+    const from = label?.index ?? 0;
+
+    const fence = text.slice(from).match(FENCED_CODE_PATTERN);
+    if (fence?.index === undefined) { return undefined; }
+    return {
+        fix: `\`\`\`${fence[2]}\n${dedent(fence[3], fence[1])}\n\`\`\``,
+        start: label ? from : from + fence.index,
+        end: from + fence.index + fence[0].length,
+    };
+}
+
+/**
+ * Markdown のレビュー結果から、重要度の見出しの下にある箇条書きのうち file:line を示すものを指摘として取り出す。
+ * 1項目に複数の箇所がある場合は最初のものを使う
+ */
+export function parseMarkdownFindings(markdown: string): ReviewFinding[] {
+    const findings: ReviewFinding[] = [];
+    let severity: FindingSeverity | undefined;
+
+    for (const item of splitListItems(markdown)) {
+        if (!item.isListItem) {
+            const heading = item.text.match(/^#{1,4} (.+)/);
+            if (heading) { severity = severityFromHeading(heading[1]); }
+            continue;
+        }
+        if (!severity) { continue; }
+
+        const citation = item.text.matchAll(CITATION_PATTERN).next().value;
+        if (!citation) { continue; }
+        const startLine = Number(citation[2]);
+        // 修正案のコードブロックは内容から除く
+        const fix = findFix(item.text, severity);
+        const text = fix ? item.text.slice(0, fix.start) + item.text.slice(fix.end) : item.text;
+        findings.push({
+            file: citation[1].replace(/^\.?\//, '').replace(/^[ab]\//, ''),
+            startLine,
+            endLine: Math.max(Number(citation[3] ?? startLine), startLine),
+            severity,
+            category: '',
+            message: text.replace(/^([-*]|\d+\.) /, '').trim(),
+            ...(fix ? { suggestedFix: fix.fix } : {}),
+        });
+    }
+    return findings;
+}
+
+/**
+ * 指定した指摘に当たる箇条書きの項目をレポートから取り除く。
+ * 項目が指摘の先頭行と箇所（file:line）の両方を含む場合に同じ指摘とみなす
+ */
+export function removeFindingsFromMarkdown(markdown: string, findings: ReviewFinding[]): string {
+    if (findings.length === 0) { return markdown; }
+    const matches = (text: string, f: ReviewFinding) => {
+        const firstLine = f.message.split('\n')[0].trim();
+        return text.includes(firstLine) && (firstLine.includes(f.file) || text.includes(formatFindingLocation(f)));
+    };
+    return splitListItems(markdown)
+        .filter(item => !item.isListItem || !findings.some(f => matches(item.text, f)))
+        .map(item => item.text)
+        .join('\n');
+}
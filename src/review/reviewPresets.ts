@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+import type { BacklogConfig } from '../config';
+
+export type ReviewPresetId = 'standard' | 'security' | 'performance' | 'frontend' | 'database' | 'quick';
+
+/**
+ * レビューのプリセット。レビュー観点（Mission）・出力セクション・コンテキストの深さを切り替える
+ */
+export interface ReviewPreset {
+    id: ReviewPresetId;
+    label: string;
+    description: string;
+    /** プロンプトの {{mission}} に入るレビュー観点の一覧 */
+    mission: string;
+    /** 出力形式のうち【レビュー対象】以降の指摘セクション（未指定なら既定の形式） */
+    outputSections?: string;
+    /** 定義元・影響範囲の追跡に関する設定の上書き */
+    overrides?: Partial<Pick<BacklogConfig, 'definitionDepth' | 'definitionMode' | 'impactMaxReferences'>>;
+}
+
+const STANDARD_MISSION = `1. **仕様適合性**: Context 1の仕様・要件が、Context 3の変更で正しく実装されているか？
+2. **既存ロジックとの整合性**: Context 2の既存コードと矛盾したり、デッドコードを生んでいないか？
+3. **再利用性**: プロジェクト内の他の共通関数やクラスを使わずに、車輪の再発明をしていないか？
+4. **冗長性とパフォーマンス**: 無駄なループや冗長な処理がないか？特にDBクエリにおいて、N+1問題など冗長な実行が発生していないか？
+5. **DB実行計画の考慮**: クエリやORMによるDB処理の実行箇所において、クエリ実行計画（インデックスの使用、フルスキャン回避など）の観点で問題や改善点はないか？
+6. **品質**: コードの可読性、命名、エラーハンドリング、型安全性の観点で問題はないか？
+7. **影響範囲**: シグネチャや振る舞いの変更によって、Context 2-impactの呼び出し元が壊れたり、想定外の挙動にならないか？`;
+
+export const REVIEW_PRESETS: ReviewPreset[] = [
+    {
+        id: 'standard',
+        label: vscode.l10n.t('Standard'),
+        description: vscode.l10n.t('Comprehensive review of spec conformance, consistency, performance and quality'),
+        mission: STANDARD_MISSION,
+    },
+    {
+        id: 'security',
+        label: vscode.l10n.t('Security audit'),
+        description: vscode.l10n.t('Focus on injection, authorization and handling of secrets'),
+        mission: `1. **インジェクション**: SQL・OSコマンド・XSS・パストラバーサル・テンプレート等のインジェクションにつながる、未検証の入力の受け渡しがないか？
+2. **認証・認可**: 権限チェックの漏れ、他ユーザーのリソースへのアクセス（IDOR）、認可判定のクライアント依存がないか？
+3. **秘密情報**: APIキー・パスワード・トークン等のハードコード、ログや例外メッセージ・レスポンスへの漏えいがないか？
+4. **入力検証と出力エンコード**: 型・長さ・形式の検証、出力時のエスケープが適切か？
+5. **暗号・セッション**: 弱い暗号・乱数の使用、セッション固定、CSRF対策の欠如がないか？
+6. **影響範囲**: Context 2-impactの呼び出し元で、変更によりセキュリティ上の前提が崩れていないか？`,
+        outputSections: `## 【致命的】悪用可能な脆弱性
+（攻撃シナリオと該当箇所のファイル名・行番号付きで指摘）
+
+## 【警告】脆弱性につながるおそれのある実装
+
+## 【推奨】防御を強化するための改善提案
+
+## 総評
+（リスクの評価と次のアクション）
+`,
+    },
+    {
+        id: 'performance',
+        label: vscode.l10n.t('Performance'),
+        description: vscode.l10n.t('Focus on the efficiency of computation, I/O, memory and async processing'),
+        mission: `1. **計算量**: ループの入れ子や線形探索の繰り返しなど、データ量に対して不必要に重い処理がないか？
+2. **I/O・ネットワーク**: N+1問題、ループ内のAPI・DB呼び出し、不要な逐次実行がないか？
+3. **メモリ**: 大きなデータの全件読み込み、不要なコピー、解放漏れやリークがないか？
+4. **非同期処理**: イベントループやUIスレッドをブロックする処理、並列化できる待ち合わせがないか？
+5. **キャッシュ**: 同じ計算・取得の繰り返しをキャッシュで避けられないか？キャッシュの無効化は正しいか？`,
+    },
+    {
+        id: 'frontend',
+        label: vscode.l10n.t('Frontend'),
+        description: vscode.l10n.t('Focus on UI, accessibility, rendering performance and state management'),
+        mission: `1. **仕様適合性**: Context 1の仕様・要件が、画面の振る舞いとして正しく実装されているか？
+2. **アクセシビリティ**: セマンティックなマークアップ、ラベル・代替テキスト、キーボード操作、コントラストに問題がないか？
+3. **描画性能**: 不要な再レンダリング、重い処理の描画パスへの混入、大きなリストの非仮想化がないか？
+4. **状態管理**: 状態の重複や不整合、副作用の後始末漏れ、競合状態がないか？
+5. **セキュリティ**: 未エスケープのHTML挿入（XSS）や、秘密情報のクライアントへの露出がないか？
+6. **品質**: コンポーネントの責務分割、命名、型安全性、エラー・ローディング状態の扱いに問題がないか？`,
+    },
+    {
+        id: 'database',
+        label: vscode.l10n.t('Database'),
+        description: vscode.l10n.t('Focus on queries, execution plans, transactions and migrations'),
+        mission: `1. **クエリの妥当性**: 取得条件・結合・集計が仕様どおりか？NULLや重複の扱いに漏れがないか？
+2. **実行計画**: インデックスが使われるか？フルスキャン、関数適用によるインデックス無効化、暗黙の型変換がないか？
+3. **冗長な実行**: N+1問題、ループ内のクエリ、不要な全件取得がないか？
+4. **トランザクション**: 整合性が必要な更新が同一トランザクションにあるか？ロックの範囲・順序によるデッドロックのおそれはないか？
+5. **マイグレーション**: 既存データへの影響、大きなテーブルのロック、ロールバック手順に問題がないか？`,
+    },
+    {
+        id: 'quick',
+        label: vscode.l10n.t('Quick'),
+        description: vscode.l10n.t('Quickly point out only obvious bugs and readability issues, without definition tracking'),
+        mission: `1. **明らかなバグ**: タイプミス、条件の誤り、null・未定義の参照、例外の握りつぶしがないか？
+2. **可読性**: 命名、関数の長さ、重複コード、不要なコメントやデバッグ出力がないか？
+3. **規約**: 周囲のコードの書き方と一貫しているか？`,
+        outputSections: `## 【警告】指摘事項
+（該当箇所のファイル名・行番号付きで、重要なものから簡潔に列挙）
+
+## 総評
+（1〜2文で）
+`,
+        overrides: { definitionDepth: 0, impactMaxReferences: 0 },
+    },
+];
+
+export function getReviewPreset(id: string | undefined): ReviewPreset {
+    return REVIEW_PRESETS.find(p => p.id === id) ?? REVIEW_PRESETS[0];
+}
@@ -0,0 +1,71 @@
+import * as vscode from 'vscode';
+import type { ReviewModel } from './modelProvider';
+
+/**
+ * オフラインでの動作確認用に、プロンプトの種類に応じた固定の応答を返すモデル。
+ * 同じプロンプトには常に同じ応答を返す
+ */
+export class StubReviewModel implements ReviewModel {
+    readonly name = 'Stub';
+    readonly vendor = 'stub';
+    readonly family = 'stub';
+    readonly maxInputTokens = 128000;
+
+    async countTokens(text: string): Promise<number> {
+        return Math.ceil(text.length / 4);
+    }
+
+    async sendRequest(
+        messages: vscode.LanguageModelChatMessage[]
+    ): Promise<{ text: AsyncIterable<string>; stream: AsyncIterable<vscode.LanguageModelTextPart> }> {
+        const prompt = messages
+            .filter(m => m.role === vscode.LanguageModelChatMessageRole.User)
+            .map(m => m.content.map(part => part instanceof vscode.LanguageModelTextPart ? part.value : '').join(''))
+            .pop() ?? '';
+        const text = buildStubResponse(prompt, messages.length);
+        // ツールは呼び出さないため、エージェントモードでも最初の応答がそのままレビュー結果になる
+        return { text: streamLines(text), stream: streamParts(text) };
+    }
+}
+
+function buildStubResponse(prompt: string, messageCount: number): string {
+    // 指摘の検証（findingVerifier）
+    if (prompt.includes('{"unsupported":')) {
+        return '{"unsupported": []}';
+    }
+    // 構造化モードのレビュー
+    if (prompt.includes('"findings"')) {
+        return JSON.stringify({
+            summary: `スタブモデルによる固定の応答です（プロンプト ${prompt.length} 文字）。`,
+            findings: [],
+        }, null, 2);
+    }
+    // フォローアップの質問
+    if (messageCount > 1) {
+        return `スタブモデルによる固定の回答です（質問 ${prompt.length} 文字）。`;
+    }
+    return `## 【致命的】仕様漏れ・バグ・セキュリティリスク
+なし
+
+## 【警告】潜在的な問題・要確認事項
+なし
+
+## 【推奨】リファクタリング案・改善提案
+なし
+
+## 総評
+スタブモデルによる固定の応答です（プロンプト ${prompt.length} 文字）。
+`;
+}
+
+async function* streamLines(text: string): AsyncIterable<string> {
+    for (const line of text.split(/(?<=\n)/)) {
+        yield line;
+    }
+}
+
+async function* streamParts(text: string): AsyncIterable<vscode.LanguageModelTextPart> {
+    for await (const line of streamLines(text)) {
+        yield new vscode.LanguageModelTextPart(line);
+    }
+}
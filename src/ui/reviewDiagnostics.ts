@@ -0,0 +1,262 @@
+import * as vscode from 'vscode';
+import { FindingSeverity, ReviewFinding, formatFindingLocation, formatFixAsMarkdown } from '../review/reviewFindings';
+
+/** 診断・装飾として表示する重要度（称賛は問題ではないため表示しない） */
+type MarkedSeverity = Exclude<FindingSeverity, 'praise'>;
+
+const DIAGNOSTIC_SEVERITIES: Record<MarkedSeverity, vscode.DiagnosticSeverity> = {
+    critical: vscode.DiagnosticSeverity.Error,
+    warning: vscode.DiagnosticSeverity.Warning,
+    recommend: vscode.DiagnosticSeverity.Information,
+};
+
+const RULER_COLORS: Record<MarkedSeverity, string> = {
+    critical: 'editorError.foreground',
+    warning: 'editorWarning.foreground',
+    recommend: 'editorInfo.foreground',
+};
+
+/** 行末に表示する指摘の先頭部分の文字数 */
+const INLINE_MESSAGE_CHARS = 80;
+
+const DIAGNOSTIC_SOURCE = 'Backlog AI Review';
+
+interface PlacedFinding {
+    uri: vscode.Uri;
+    finding: ReviewFinding & { severity: MarkedSeverity };
+    /** レビューした時点のファイルの内容（修正案を適用できるかの確認に使う） */
+    reviewedContent?: string;
+}
+
+/**
+ * レビューの指摘をエディタに表示する。
+ * 指摘ごとに Problems パネルの診断を登録し、指摘箇所の行にガターのアイコンと行末のメッセージを付ける。
+ * 修正案のある指摘は、その行のクイックフィックスとして提供する
+ */
+export class ReviewDiagnostics implements vscode.CodeActionProvider, vscode.Disposable {
+    private readonly collection = vscode.languages.createDiagnosticCollection('backlogReview');
+    private readonly decorationTypes: Record<MarkedSeverity, vscode.TextEditorDecorationType>;
+    private readonly editorListener: vscode.Disposable;
+    private readonly codeActionRegistration: vscode.Disposable;
+    private placed: PlacedFinding[] = [];
+    /** 指摘のファイルを探すフォルダ（直近に表示したレビューのもの） */
+    private rootUris: vscode.Uri[] = [];
+
+    constructor(extensionUri: vscode.Uri) {
+        const createType = (severity: MarkedSeverity) => vscode.window.createTextEditorDecorationType({
+            gutterIconPath: vscode.Uri.joinPath(extensionUri, 'media', `finding-${severity}.svg`),
+            gutterIconSize: 'contain',
+            overviewRulerColor: new vscode.ThemeColor(RULER_COLORS[severity]),
+            overviewRulerLane: vscode.OverviewRulerLane.Right,
+            after: {
+                color: new vscode.ThemeColor('editorCodeLens.foreground'),
+                fontStyle: 'italic',
+                margin: '0 0 0 3em',
+            },
+        });
+        this.decorationTypes = {
+            critical: createType('critical'),
+            warning: createType('warning'),
+            recommend: createType('recommend'),
+        };
+        this.editorListener = vscode.window.onDidChangeVisibleTextEditors(editors => this.decorate(editors));
+        this.codeActionRegistration = vscode.languages.registerCodeActionsProvider(
+            { scheme: 'file' }, this, { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }
+        );
+    }
+
+    /**
+     * 指摘を表示し、それまでの表示を置き換える。ファイルが rootUris のどこにも見つからない指摘と、
+     * ワークスペースのファイルがレビューした時点の内容と異なる指摘（行番号がずれているおそれがある）は表示しない
+     * @param fileContents レビューした時点のファイルの内容（キーは指摘と同じリポジトリからの相対パス）
+     * @returns 内容が異なるため表示しなかったファイル
+     */
+    async show(findings: ReviewFinding[], rootUris: vscode.Uri[], fileContents: Map<string, string>): Promise<string[]> {
+        this.clear();
+        this.rootUris = rootUris;
+
+        const { located, outdatedFiles } = await locateFindings(findings, rootUris, fileContents);
+        const placed: PlacedFinding[] = located.map(({ finding, uri }) => ({
+            uri,
+            finding: { ...finding, severity: finding.severity as MarkedSeverity },
+            reviewedContent: fileContents.get(finding.file),
+        }));
+
+        const byFile = new Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }>();
+        for (const { uri, finding } of placed) {
+            const entry = byFile.get(uri.toString()) ?? { uri, diagnostics: [] };
+            entry.diagnostics.push(toDiagnostic(finding));
+            byFile.set(uri.toString(), entry);
+        }
+        this.collection.set([...byFile.values()].map(e => [e.uri, e.diagnostics]));
+
+        this.placed = placed;
+        this.decorate(vscode.window.visibleTextEditors);
+        return outdatedFiles;
+    }
+
+    clear(): void {
+        this.placed = [];
+        this.collection.clear();
+        for (const editor of vscode.window.visibleTextEditors) {
+            for (const type of Object.values(this.decorationTypes)) {
+                editor.setDecorations(type, []);
+            }
+        }
+    }
+
+    /** 指摘のファイルを開き、指摘箇所を選択する */
+    async reveal(file: string, startLine: number, endLine: number = startLine): Promise<void> {
+        const uri = await this.resolve(file);
+        if (!uri) {
+            vscode.window.showWarningMessage(vscode.l10n.t('Could not find {0} in the workspace.', file));
+            return;
+        }
+        const document = await vscode.workspace.openTextDocument(uri);
+        const start = Math.min(Math.max(startLine, 1), document.lineCount) - 1;
+        const end = Math.min(Math.max(endLine, startLine, 1), document.lineCount) - 1;
+        await vscode.window.showTextDocument(document, {
+            viewColumn: vscode.ViewColumn.Beside,
+            selection: new vscode.Range(start, 0, end, document.lineAt(end).text.length),
+        });
+    }
+
+    provideCodeActions(
+        document: vscode.TextDocument,
+        range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        return this.placed
+            .filter(p => p.finding.suggestedFix
+                && p.uri.toString() === document.uri.toString()
+                && range.start.line <= p.finding.endLine - 1
+                && range.end.line >= p.finding.startLine - 1)
+            .map(({ uri, finding, reviewedContent }) => {
+                const action = new vscode.CodeAction(
+                    vscode.l10n.t('Apply suggested fix: {0}', summarizeMessage(finding.message, INLINE_MESSAGE_CHARS)),
+                    vscode.CodeActionKind.QuickFix
+                );
+                action.diagnostics = context.diagnostics.filter(d =>
+                    d.source === DIAGNOSTIC_SOURCE && d.range.start.line === finding.startLine - 1 && d.message === finding.message
+                );
+                action.command = {
+                    command: 'backlogReview.previewSuggestedFix',
+                    title: action.title,
+                    arguments: [finding, uri, reviewedContent],
+                };
+                return action;
+            });
+    }
+
+    dispose(): void {
+        this.editorListener.dispose();
+        this.codeActionRegistration.dispose();
+        this.collection.dispose();
+        for (const type of Object.values(this.decorationTypes)) {
+            type.dispose();
+        }
+    }
+
+    private decorate(editors: readonly vscode.TextEditor[]): void {
+        for (const editor of editors) {
+            const inEditor = this.placed.filter(p => p.uri.toString() === editor.document.uri.toString());
+            for (const [severity, type] of Object.entries(this.decorationTypes) as [MarkedSeverity, vscode.TextEditorDecorationType][]) {
+                editor.setDecorations(type, inEditor
+                    .filter(p => p.finding.severity === severity && p.finding.startLine <= editor.document.lineCount)
+                    .map(p => toDecoration(p.finding, editor.document.lineAt(p.finding.startLine - 1).range)));
+            }
+        }
+    }
+
+    private resolve(file: string): Promise<vscode.Uri | undefined> {
+        return findFindingFile(this.rootUris, file);
+    }
+}
+
+/**
+ * 指摘のファイルを rootUris（空の場合はワークスペースフォルダ）から探す
+ */
+export async function findFindingFile(rootUris: vscode.Uri[], file: string): Promise<vscode.Uri | undefined> {
+    const roots = rootUris.length > 0
+        ? rootUris
+        : (vscode.workspace.workspaceFolders ?? []).map(f => f.uri);
+    for (const root of roots) {
+        const uri = vscode.Uri.joinPath(root, file);
+        try {
+            await vscode.workspace.fs.stat(uri);
+            return uri;
+        } catch {
+            // このフォルダには存在しない
+        }
+    }
+    return undefined;
+}
+
+/**
+ * 称賛以外の指摘のファイルを rootUris から探し、ワークスペースのファイルがレビューした時点の内容と一致する指摘だけを返す。
+ * 他のブランチをレビューした場合など、内容が異なるファイルに指摘を付けると無関係な行を指してしまうため
+ */
+export async function locateFindings(
+    findings: ReviewFinding[],
+    rootUris: vscode.Uri[],
+    fileContents: Map<string, string>
+): Promise<{ located: { finding: ReviewFinding; uri: vscode.Uri }[]; outdatedFiles: string[] }> {
+    const located: { finding: ReviewFinding; uri: vscode.Uri }[] = [];
+    const matches = new Map<string, vscode.Uri | null>();
+    const outdatedFiles = new Set<string>();
+    for (const finding of findings) {
+        if (finding.severity === 'praise') { continue; }
+        if (!matches.has(finding.file)) {
+            const uri = await findFindingFile(rootUris, finding.file);
+            const document = uri ? await vscode.workspace.openTextDocument(uri).then(d => d, () => undefined) : undefined;
+            if (document && isReviewedContent(document, fileContents.get(finding.file))) {
+                matches.set(finding.file, document.uri);
+            } else {
+                matches.set(finding.file, null);
+                if (document) { outdatedFiles.add(finding.file); }
+            }
+        }
+        const uri = matches.get(finding.file);
+        if (uri) { located.push({ finding, uri }); }
+    }
+    return { located, outdatedFiles: [...outdatedFiles] };
+}
+
+/** ドキュメントの内容がレビューした時点の内容と一致するか（改行コードの違いは無視する） */
+export function isReviewedContent(document: vscode.TextDocument, reviewedContent: string | undefined): boolean {
+    if (reviewedContent === undefined) { return false; }
+    return document.getText().replace(/\r\n/g, '\n') === reviewedContent.replace(/\r\n/g, '\n');
+}
+
+function toDiagnostic(finding: ReviewFinding & { severity: MarkedSeverity }): vscode.Diagnostic {
+    const range = new vscode.Range(finding.startLine - 1, 0, finding.endLine - 1, Number.MAX_SAFE_INTEGER);
+    const diagnostic = new vscode.Diagnostic(range, finding.message, DIAGNOSTIC_SEVERITIES[finding.severity]);
+    diagnostic.source = DIAGNOSTIC_SOURCE;
+    if (finding.category) { diagnostic.code = finding.category; }
+    return diagnostic;
+}
+
+/** 指摘の先頭行にガターのアイコンと行末のメッセージを付ける（詳細はホバーで表示する） */
+function toDecoration(finding: ReviewFinding, line: vscode.Range): vscode.DecorationOptions {
+    const inline = summarizeMessage(finding.message, INLINE_MESSAGE_CHARS);
+
+    const hover = new vscode.MarkdownString();
+    hover.appendMarkdown(`**${formatFindingLocation(finding)}**${finding.category ? ` [${finding.category}]` : ''}\n\n`);
+    hover.appendMarkdown(finding.message);
+    if (finding.suggestedFix) {
+        hover.appendMarkdown(`\n\n${vscode.l10n.t('Suggested fix')}:\n\n${formatFixAsMarkdown(finding.suggestedFix)}`);
+    }
+
+    return {
+        range: line,
+        hoverMessage: hover,
+        renderOptions: { after: { contentText: inline } },
+    };
+}
+
+/** 指摘の先頭行を maxChars 文字までの1行にする */
+function summarizeMessage(message: string, maxChars: number): string {
+    // Markdown の指摘は先頭に箇所（file:line）が付いているため除く
+    const firstLine = message.split('\n')[0].replace(/\*\*|`/g, '').replace(/^\S+:\d+(?:\s*[-~]\s*\d+)?\s*/, '');
+    return firstLine.length > maxChars ? firstLine.slice(0, maxChars) + '…' : firstLine;
+}
@@ -1,21 +1,72 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import { SkippedFile } from '../git/diffAnalyzer';
+import { OmittedContent, OmittedSection } from '../review/promptBuilder';
+import {
+  FindingSeverity,
+  ReviewFinding,
+  SEVERITY_ORDER,
+  StructuredReview,
+  formatFindingLocation,
+  removeFindingsFromMarkdown,
+  severityFromHeading,
+} from '../review/reviewFindings';
+import { RejectedFinding, RejectionReason } from '../review/findingVerifier';
+import { ReviewConversation } from '../review/reviewConversation';
+import { AgentToolCall } from '../review/agentReviewer';
+import { ReviewDiagnostics } from './reviewDiagnostics';
+import { ReviewThreads } from './reviewThreads';
+
+/** レビュー本文以外にレポートへ添えて表示する情報 */
+export interface ReviewReportDetails {
+  skippedFiles?: SkippedFile[];
+  omittedContent?: OmittedContent[];
+  notices?: string[];
+  /** レビューに使ったプリセットの表示名 */
+  presetLabel?: string;
+  /** 構造化モードの指摘（ある場合は Markdown の代わりにこれを表示する） */
+  structured?: StructuredReview;
+  /** 検証で除外した指摘（折りたたんで件数と理由だけを表示する） */
+  filteredFindings?: RejectedFinding[];
+  /** エージェントモードで呼び出したツール（折りたたんで一覧を表示する） */
+  toolCalls?: AgentToolCall[];
+  /** レポートの下でフォローアップの質問に答えるための会話（なければ入力欄を表示しない） */
+  conversation?: ReviewConversation;
+  /** エディタに診断・装飾・コメントスレッドとして表示する指摘と、そのファイルを探すフォルダ */
+  findings?: ReviewFinding[];
+  sourceRoots?: vscode.Uri[];
+  /** レビューした時点のファイルの内容（指摘をエディタに表示する前・修正案を適用する前に、ファイルが変わっていないかを確かめる） */
+  fileContents?: Map<string, string>;
+}
 
 export class ReviewPanel {
   private static instance: ReviewPanel | undefined;
   private readonly panel: vscode.WebviewPanel;
   private readonly extensionUri: vscode.Uri;
-
-  private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri) {
+  private readonly diagnostics: ReviewDiagnostics;
+  private readonly threads: ReviewThreads;
+  /** 表示中のレポートに対するメッセージの受け口（レポートを差し替えるたびに付け替える） */
+  private messageListener: vscode.Disposable | undefined;
+  /** スレッドの解決状態の変化を診断とレポートに反映する受け口（レポートを差し替えるたびに付け替える） */
+  private threadStateListener: vscode.Disposable | undefined;
+  private followUpCancellation: vscode.CancellationTokenSource | undefined;
+
+  private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, diagnostics: ReviewDiagnostics, threads: ReviewThreads) {
     this.panel = panel;
     this.extensionUri = extensionUri;
+    this.diagnostics = diagnostics;
+    this.threads = threads;
 
     this.panel.onDidDispose(() => {
+      this.resetMessageHandling();
+      // レビューを閉じたらエディタ上の指摘も消す
+      this.diagnostics.clear();
+      this.threads.clear();
       ReviewPanel.instance = undefined;
     });
   }
 
-  static createOrShow(extensionUri: vscode.Uri): ReviewPanel {
+  static createOrShow(extensionUri: vscode.Uri, diagnostics: ReviewDiagnostics, threads: ReviewThreads): ReviewPanel {
     const column = vscode.window.activeTextEditor
       ? vscode.window.activeTextEditor.viewColumn
       : undefined;
@@ -35,11 +86,14 @@ export class ReviewPanel {
       }
     );
 
-    ReviewPanel.instance = new ReviewPanel(panel, extensionUri);
+    ReviewPanel.instance = new ReviewPanel(panel, extensionUri, diagnostics, threads);
     return ReviewPanel.instance;
   }
 
   showLoading(prNumber: number, prTitle: string, projectKey: string, repoName: string) {
+    this.resetMessageHandling();
+    this.diagnostics.clear();
+    this.threads.clear();
     this.panel.title = `AI Review: #${prNumber}`;
     this.panel.webview.html = this.getLoadingHtml(prNumber, prTitle, projectKey, repoName);
   }
@@ -48,6 +102,10 @@ export class ReviewPanel {
     this.panel.webview.postMessage({ type: 'chunk', content: chunk });
   }
 
+  showProgress(message: string) {
+    this.panel.webview.postMessage({ type: 'progress', content: message });
+  }
+
   showResult(
     prNumber: number,
     prTitle: string,
@@ -56,29 +114,113 @@ export class ReviewPanel {
     spaceKey: string,
     markdown: string,
     modelName: string,
-    issueKey?: string
+    issueKey?: string,
+    details: ReviewReportDetails = {}
   ) {
+    this.resetMessageHandling();
     this.panel.title = `AI Review: #${prNumber}`;
     this.panel.webview.html = this.getResultHtml(
-      prNumber, prTitle, projectKey, repoName, spaceKey, markdown, modelName, issueKey
+      prNumber, prTitle, projectKey, repoName, spaceKey, markdown, modelName, issueKey, details
     );
 
-    this.panel.webview.onDidReceiveMessage(async msg => {
+    const { conversation } = details;
+    if (details.findings) {
+      const sourceRoots = details.sourceRoots ?? [];
+      const fileContents = details.fileContents ?? new Map<string, string>();
+      this.diagnostics.show(details.findings, sourceRoots, fileContents).then(outdatedFiles => {
+        if (outdatedFiles.length > 0) {
+          vscode.window.showInformationMessage(vscode.l10n.t(
+            'Findings in {0} are not shown in the editor because the workspace files differ from the reviewed version.',
+            outdatedFiles.join(', ')
+          ));
+        }
+      });
+      this.threads.show(details.findings, sourceRoots, fileContents, modelName, conversation);
+      // 解決済み・誤検知にした指摘は診断から外し、投稿から除く件数をレポートに表示する
+      this.threadStateListener = this.threads.onDidChangeState(() => {
+        this.diagnostics.show(this.threads.unresolvedFindings(), sourceRoots, fileContents);
+        this.panel.webview.postMessage({ type: 'excludedFindings', count: this.threads.excludedFindings().length });
+      });
+    }
+
+    this.messageListener = this.panel.webview.onDidReceiveMessage(async msg => {
       if (msg.type === 'postComment') {
+        const thread = msg.includeThread && conversation ? conversation.formatThreadAsMarkdown() : '';
+        // 解決済み・誤検知にしたスレッドの指摘は投稿しない
+        const content = removeFindingsFromMarkdown(msg.content, this.threads.excludedFindings());
         await vscode.commands.executeCommand('backlogReview.postComment', {
           issueKey: msg.issueKey,
-          content: msg.content,
+          content: content + thread,
           panel: this
         });
+      } else if (msg.type === 'export') {
+        await this.exportReport(prNumber, prTitle, markdown, modelName, details.structured);
+      } else if (msg.type === 'followUp' && conversation) {
+        await this.answerFollowUp(conversation, String(msg.question));
+      } else if (msg.type === 'openFinding') {
+        await this.diagnostics.reveal(String(msg.file), Number(msg.startLine), Number(msg.endLine));
       }
     });
   }
 
+  private resetMessageHandling() {
+    this.messageListener?.dispose();
+    this.messageListener = undefined;
+    this.threadStateListener?.dispose();
+    this.threadStateListener = undefined;
+    this.followUpCancellation?.cancel();
+  }
+
+  /** フォローアップの質問を同じモデルに送り、回答をレポートの下のスレッドに流し込む */
+  private async answerFollowUp(conversation: ReviewConversation, question: string) {
+    const source = new vscode.CancellationTokenSource();
+    this.followUpCancellation = source;
+    try {
+      const answer = await conversation.ask(question, source.token, chunk => {
+        this.panel.webview.postMessage({ type: 'followUpChunk', content: chunk });
+      });
+      this.panel.webview.postMessage({ type: 'followUpEnd', html: markdownToHtml(answer) });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      this.panel.webview.postMessage({ type: 'followUpError', error: msg });
+    } finally {
+      if (this.followUpCancellation === source) { this.followUpCancellation = undefined; }
+      source.dispose();
+    }
+  }
+
+  /** レビュー結果をファイルに保存する（構造化モードでは JSON も選べる） */
+  private async exportReport(
+    prNumber: number,
+    prTitle: string,
+    markdown: string,
+    modelName: string,
+    structured: StructuredReview | undefined
+  ) {
+    const filters: Record<string, string[]> = structured
+      ? { JSON: ['json'], Markdown: ['md'] }
+      : { Markdown: ['md'] };
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: folder && vscode.Uri.joinPath(folder, `ai-review-${prNumber}.${structured ? 'json' : 'md'}`),
+      filters,
+    });
+    if (!uri) { return; }
+
+    const content = structured && path.extname(uri.fsPath).toLowerCase() === '.json'
+      ? JSON.stringify({ prNumber, title: prTitle, model: modelName, ...structured }, null, 2)
+      : markdown;
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf-8'));
+    vscode.window.showInformationMessage(vscode.l10n.t('Saved the review to {0}', path.basename(uri.fsPath)));
+  }
+
   private postResult(success: boolean, error?: string) {
     this.panel.webview.postMessage({ type: 'postResult', success, error });
   }
 
   showError(message: string) {
+    this.diagnostics.clear();
+    this.threads.clear();
     this.panel.webview.html = this.getErrorHtml(message);
   }
 
@@ -89,7 +231,7 @@ export class ReviewPanel {
     repoName: string
   ): string {
     return `<!DOCTYPE html>
-<html lang="ja">
+<html lang="${vscode.env.language}">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
@@ -100,6 +242,9 @@ export class ReviewPanel {
     .spinner { width: 56px; height: 56px; border: 4px solid var(--vscode-editor-background); border-top: 4px solid var(--accent); border-radius: 50%; animation: spin 1s linear infinite; }
     @keyframes spin { to { transform: rotate(360deg); } }
     .review-output { white-space: pre-wrap; font-family: var(--vscode-editor-font-family); line-height: 1.7; padding: 16px; }
+    .progress-log { list-style: none; padding: 8px 32px; font-size: 12px; color: var(--vscode-descriptionForeground); }
+    .progress-log li::before { content: '- '; }
+    .progress-log li:last-child { color: var(--vscode-editor-foreground); font-weight: 600; }
   </style>
 </head>
 <body>
@@ -108,9 +253,10 @@ export class ReviewPanel {
     <h1>${escapeHtml(prTitle)}</h1>
     <div class="meta">${projectKey} / ${repoName}</div>
   </div>
+  <ul class="progress-log" id="progress-log"></ul>
   <div class="loading-container" id="loader">
     <div class="spinner"></div>
-    <p>GitHub Copilot がレビューを生成中です...</p>
+    <p>${vscode.l10n.t('The AI model is generating the review...')}</p>
   </div>
   <div class="section" id="stream-output" style="display:none;">
     <div class="review-output" id="stream-content"></div>
@@ -120,6 +266,7 @@ export class ReviewPanel {
     const loader = document.getElementById('loader');
     const streamOutput = document.getElementById('stream-output');
     const streamContent = document.getElementById('stream-content');
+    const progressLog = document.getElementById('progress-log');
     let hasContent = false;
 
     window.addEventListener('message', event => {
@@ -132,6 +279,10 @@ export class ReviewPanel {
         }
         streamContent.textContent += msg.content;
         window.scrollTo(0, document.body.scrollHeight);
+      } else if (msg.type === 'progress') {
+        const item = document.createElement('li');
+        item.textContent = msg.content;
+        progressLog.appendChild(item);
       }
     });
   </script>
@@ -147,22 +298,76 @@ export class ReviewPanel {
     spaceKey: string,
     markdown: string,
     modelName: string,
-    issueKey?: string
+    issueKey: string | undefined,
+    details: ReviewReportDetails
   ): string {
+    const { skippedFiles = [], omittedContent = [], notices = [], filteredFindings = [], toolCalls = [] } = details;
     const prUrl = `https://${spaceKey}.backlog.com/git/${projectKey}/${repoName}/pullRequests/${prNumber}`;
-    const renderedMarkdown = markdownToHtml(markdown);
+    const renderedMarkdown = details.structured ? renderFindings(details.structured) : markdownToHtml(markdown);
 
     const postButton = issueKey ? `
-        <div class="action-bar">
           <button id="post-comment-btn" class="btn primary">
-            <span class="codicon codicon-comment"></span> Backlog課題 (${issueKey}) にコメントとして投稿
+            <span class="codicon codicon-comment"></span> ${vscode.l10n.t('Post as a comment on Backlog issue ({0})', issueKey)}
           </button>
-          <div id="post-status" class="status-msg"></div>
+          <span id="excluded-note" class="excluded-note"></span>
+          ${details.conversation ? `<label class="include-thread"><input type="checkbox" id="include-thread"> ${vscode.l10n.t('Include follow-up questions')}</label>` : ''}
+        ` : '';
+
+    const followUpSection = details.conversation ? `
+        <div class="follow-up">
+          <h2>${vscode.l10n.t('Follow-up questions')}</h2>
+          <div id="follow-up-thread"></div>
+          <div class="follow-up-input">
+            <textarea id="follow-up-text" rows="3" placeholder="${escapeHtml(vscode.l10n.t('Ask about the review (e.g. why is this an N+1 query? / show me the fix)'))}"></textarea>
+            <button id="follow-up-btn" class="btn primary">${vscode.l10n.t('Send')}</button>
+          </div>
+        </div>
+        ` : '';
+
+    const skippedSection = skippedFiles.length > 0 ? `
+        <details class="skipped-files">
+          <summary>${vscode.l10n.t('Files excluded from review ({0})', skippedFiles.length)}</summary>
+          <ul>
+            ${skippedFiles.map(f => `<li><code>${escapeHtml(f.path)}</code> - ${escapeHtml(f.reason)}</li>`).join('\n')}
+          </ul>
+        </details>
+        ` : '';
+
+    const noticeSection = notices.length > 0 ? `
+        <div class="notices">
+          ${notices.map(n => `<p>${escapeHtml(n)}</p>`).join('\n')}
         </div>
         ` : '';
 
+    const omittedSection = omittedContent.length > 0 ? `
+        <details class="skipped-files">
+          <summary>${vscode.l10n.t('Context omitted due to the token limit ({0})', omittedContent.length)}</summary>
+          <ul>
+            ${omittedContent.map(o => `<li>${omittedSectionLabel(o.section)}: <code>${escapeHtml(o.item)}</code> - ${o.action === 'summarized' ? vscode.l10n.t('summary only') : vscode.l10n.t('omitted')}</li>`).join('\n')}
+          </ul>
+        </details>
+        ` : '';
+
+    const filteredSection = filteredFindings.length > 0 ? `
+        <details class="skipped-files">
+          <summary>${vscode.l10n.t('Findings filtered by verification ({0})', filteredFindings.length)}</summary>
+          <ul>
+            ${filteredFindings.map(f => `<li><code>${escapeHtml(f.location)}</code> - ${escapeHtml(rejectionReasonLabel(f.reason))}${f.detail ? `: ${escapeHtml(f.detail)}` : ''}<blockquote>${inlineMarkdown(f.text.split('\n')[0])}</blockquote></li>`).join('\n')}
+          </ul>
+        </details>
+        ` : '';
+
+    const toolCallSection = toolCalls.length > 0 ? `
+        <details class="skipped-files">
+          <summary>${vscode.l10n.t('Tool calls in agent mode ({0})', toolCalls.length)}</summary>
+          <ul>
+            ${toolCalls.map(c => `<li><code>${escapeHtml(c.tool)}</code> <code>${escapeHtml(c.input)}</code>${c.failed ? ` - ${escapeHtml(vscode.l10n.t('failed: {0}', c.output))}` : ''}</li>`).join('\n')}
+          </ul>
+        </details>
+        ` : '';
+
     return `<!DOCTYPE html>
-<html lang="ja">
+<html lang="${vscode.env.language}">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
@@ -175,56 +380,151 @@ export class ReviewPanel {
     .btn { padding: 8px 16px; border-radius: 4px; border: none; cursor: pointer; font-size: 13px; font-weight: 600; display: flex; align-items: center; gap: 8px; }
     .btn.primary { background: var(--vscode-button-background); color: var(--vscode-button-foreground); }
     .btn.primary:hover { background: var(--vscode-button-hoverBackground); }
+    .btn.secondary { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+    .btn.secondary:hover { background: var(--vscode-button-secondaryHoverBackground); }
     .btn:disabled { opacity: 0.5; cursor: not-allowed; }
     .status-msg { font-size: 12px; }
     .status-msg.success { color: var(--praise); }
     .status-msg.error { color: var(--fatal); }
+    .skipped-files { margin: 16px 32px; padding: 8px 16px; border: 1px solid var(--vscode-panel-border); border-radius: 6px; font-size: 12px; }
+    .skipped-files summary { cursor: pointer; font-weight: 600; color: var(--vscode-descriptionForeground); }
+    .skipped-files ul { margin: 8px 0 0 20px; }
+    .notices { margin: 16px 32px 0; padding: 8px 16px; background: var(--warning-bg); border-left: 3px solid var(--warning); border-radius: 4px; font-size: 12px; }
+    .notices p { color: var(--vscode-editor-foreground); }
+    .finding-link { text-decoration: none; cursor: pointer; }
+    .finding-link:hover code { text-decoration: underline; }
+    .excluded-note { font-size: 12px; color: var(--vscode-descriptionForeground); }
+    .include-thread { font-size: 12px; display: flex; align-items: center; gap: 4px; }
+    .follow-up { margin: 24px 32px 0; }
+    .follow-up h2 { font-size: 16px; font-weight: 700; margin-bottom: 12px; }
+    .follow-up-question { margin: 16px 0 8px; padding: 8px 12px; border-radius: 6px; background: var(--accent-muted); white-space: pre-wrap; }
+    .follow-up-answer { padding: 0 12px; }
+    .follow-up-answer.streaming { white-space: pre-wrap; font-family: var(--vscode-editor-font-family); }
+    .follow-up-answer.error { color: var(--fatal); }
+    .follow-up-input { display: flex; gap: 8px; align-items: flex-end; margin-top: 12px; }
+    .follow-up-input textarea { flex: 1; resize: vertical; padding: 8px; font-family: inherit; color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, var(--vscode-panel-border)); border-radius: 4px; }
   </style>
 </head>
 <body>
   <div class="header">
     <div class="pr-badge">PR #${prNumber}</div>
     <h1><a href="${prUrl}" class="pr-link">${escapeHtml(prTitle)}</a></h1>
-    <div class="meta">${projectKey} / ${repoName} &nbsp;|&nbsp; Model: ${escapeHtml(modelName)}</div>
+    <div class="meta">${projectKey} / ${repoName} &nbsp;|&nbsp; Model: ${escapeHtml(modelName)}${details.presetLabel ? ` &nbsp;|&nbsp; ${vscode.l10n.t('Preset: {0}', escapeHtml(details.presetLabel))}` : ''}</div>
   </div>
 
+  ${noticeSection}
+
   <div class="review-body">
     ${renderedMarkdown}
   </div>
 
-  ${postButton}
+  ${filteredSection}
+  ${toolCallSection}
+  ${skippedSection}
+  ${omittedSection}
+
+  ${followUpSection}
+
+  <div class="action-bar">
+    ${postButton}
+    <button id="export-btn" class="btn secondary">
+      <span class="codicon codicon-save"></span> ${vscode.l10n.t('Export')}
+    </button>
+    <div id="post-status" class="status-msg"></div>
+  </div>
 
   <div class="footer">
-    <span>Reviewed by GitHub Copilot (${escapeHtml(modelName)}) via Backlog AI Reviewer</span>
+    <span>Reviewed by ${escapeHtml(modelName)} via Backlog AI Reviewer</span>
   </div>
 
   <script>
     const vscode = acquireVsCodeApi();
     const postBtn = document.getElementById('post-comment-btn');
+    const exportBtn = document.getElementById('export-btn');
     const statusMsg = document.getElementById('post-status');
 
+    exportBtn.addEventListener('click', () => {
+      vscode.postMessage({ type: 'export' });
+    });
+
+    document.addEventListener('click', event => {
+      const link = event.target.closest('.finding-link');
+      if (!link) { return; }
+      event.preventDefault();
+      vscode.postMessage({
+        type: 'openFinding',
+        file: link.dataset.file,
+        startLine: Number(link.dataset.startLine),
+        endLine: Number(link.dataset.endLine)
+      });
+    });
+
     if (postBtn) {
       postBtn.addEventListener('click', () => {
         postBtn.disabled = true;
-        statusMsg.textContent = '投稿中...';
+        statusMsg.textContent = ${JSON.stringify(vscode.l10n.t('Posting...'))};
         statusMsg.className = 'status-msg';
         
+        const includeThread = document.getElementById('include-thread');
         vscode.postMessage({
           type: 'postComment',
           issueKey: '${issueKey}',
-          content: \`${markdown.replace(/`/g, '\\`').replace(/\$/g, '\\$')}\`
+          content: \`${markdown.replace(/`/g, '\\`').replace(/\$/g, '\\$')}\`,
+          includeThread: includeThread ? includeThread.checked : false
         });
       });
     }
 
+    const followUpBtn = document.getElementById('follow-up-btn');
+    const followUpText = document.getElementById('follow-up-text');
+    const followUpThread = document.getElementById('follow-up-thread');
+    let currentAnswer = null;
+
+    if (followUpBtn) {
+      followUpBtn.addEventListener('click', () => {
+        const question = followUpText.value.trim();
+        if (!question || currentAnswer) { return; }
+
+        const questionEl = document.createElement('div');
+        questionEl.className = 'follow-up-question';
+        questionEl.textContent = question;
+        currentAnswer = document.createElement('div');
+        currentAnswer.className = 'follow-up-answer streaming';
+        followUpThread.append(questionEl, currentAnswer);
+
+        followUpText.value = '';
+        followUpBtn.disabled = true;
+        vscode.postMessage({ type: 'followUp', question });
+      });
+    }
+
     window.addEventListener('message', event => {
       const msg = event.data;
-      if (msg.type === 'postResult') {
+      if (msg.type === 'followUpChunk' && currentAnswer) {
+        currentAnswer.textContent += msg.content;
+      } else if ((msg.type === 'followUpEnd' || msg.type === 'followUpError') && currentAnswer) {
+        if (msg.type === 'followUpEnd') {
+          currentAnswer.className = 'follow-up-answer review-body';
+          currentAnswer.innerHTML = msg.html;
+        } else {
+          currentAnswer.className = 'follow-up-answer error';
+          currentAnswer.textContent = msg.error;
+        }
+        currentAnswer = null;
+        followUpBtn.disabled = false;
+      } else if (msg.type === 'excludedFindings') {
+        const note = document.getElementById('excluded-note');
+        if (note) {
+          note.textContent = msg.count > 0
+            ? ${JSON.stringify(vscode.l10n.t('{0} resolved findings will not be posted'))}.replace('{0}', msg.count)
+            : '';
+        }
+      } else if (msg.type === 'postResult') {
         if (msg.success) {
-          statusMsg.textContent = '✅ コメントを投稿しました';
+          statusMsg.textContent = ${JSON.stringify(vscode.l10n.t('✅ Comment posted'))};
           statusMsg.className = 'status-msg success';
         } else {
-          statusMsg.textContent = '❌ 投稿失敗: ' + msg.error;
+          statusMsg.textContent = ${JSON.stringify(vscode.l10n.t('❌ Failed to post: '))} + msg.error;
           statusMsg.className = 'status-msg error';
           postBtn.disabled = false;
         }
@@ -237,7 +537,7 @@ export class ReviewPanel {
 
   private getErrorHtml(message: string): string {
     return `<!DOCTYPE html>
-<html lang="ja">
+<html lang="${vscode.env.language}">
 <head>
   <meta charset="UTF-8">
   <title>Error</title>
@@ -245,8 +545,8 @@ export class ReviewPanel {
 </head>
 <body>
   <div class="header">
-    <div class="pr-badge error">エラー</div>
-    <h1>レビューに失敗しました</h1>
+    <div class="pr-badge error">${vscode.l10n.t('Error')}</div>
+    <h1>${vscode.l10n.t('Review failed')}</h1>
   </div>
   <div class="section">
     <div class="error-box">
@@ -361,10 +661,73 @@ export class ReviewPanel {
       .warning-section h2 { border-left-color: var(--warning); background: var(--warning-bg); }
       .recommend-section h2 { border-left-color: var(--recommend); background: var(--recommend-bg); }
       .praise-section h2 { border-left-color: var(--praise); background: var(--praise-bg); }
+      .finding { margin: 12px 0; padding: 10px 16px; border: 1px solid var(--vscode-panel-border); border-radius: 6px; }
+      .finding-location { font-size: 12px; color: var(--vscode-descriptionForeground); display: flex; gap: 8px; align-items: center; }
+      .finding-category { padding: 0 8px; border-radius: 10px; background: var(--accent-muted); }
+      .finding-fix-label { font-size: 12px; font-weight: 600; margin-top: 8px; color: var(--vscode-descriptionForeground); }
     `;
   }
 }
 
+const SEVERITY_CLASSES: Record<FindingSeverity, string> = {
+  critical: 'fatal',
+  warning: 'warning',
+  recommend: 'recommend',
+  praise: 'praise',
+};
+
+function severityHeading(severity: FindingSeverity): string {
+  switch (severity) {
+    case 'critical': return vscode.l10n.t('Critical: missing requirements, bugs and security risks');
+    case 'warning': return vscode.l10n.t('Warning: potential issues and points to confirm');
+    case 'recommend': return vscode.l10n.t('Recommended: refactoring and improvements');
+    case 'praise': return vscode.l10n.t('Praise: good implementation');
+  }
+}
+
+function rejectionReasonLabel(reason: RejectionReason): string {
+  switch (reason) {
+    case 'unknownFile': return vscode.l10n.t('File is not in the diff');
+    case 'lineOutOfRange': return vscode.l10n.t('Line does not exist');
+    case 'outsideChanges': return vscode.l10n.t('Not near the changed lines');
+    case 'unsupported': return vscode.l10n.t('Not supported by the diff');
+  }
+}
+
+function omittedSectionLabel(section: OmittedSection): string {
+  switch (section) {
+    case 'diff': return vscode.l10n.t('Diff');
+    case 'issue': return vscode.l10n.t('Issue');
+    case 'issueComments': return vscode.l10n.t('Issue comments');
+    case 'issueDescription': return vscode.l10n.t('Issue description');
+    case 'files': return vscode.l10n.t('File contents');
+    case 'impacts': return vscode.l10n.t('Impact (callers)');
+    case 'definitions': return vscode.l10n.t('Definitions');
+  }
+}
+
+/** 構造化モードの指摘を重要度ごとのカードとして描画する（見出しの文言からの推測は行わない） */
+function renderFindings(review: StructuredReview): string {
+  const sections = SEVERITY_ORDER.map(severity => {
+    const findings = review.findings.filter(f => f.severity === severity);
+    if (findings.length === 0) { return ''; }
+
+    const cards = findings.map(f => `
+      <div class="finding">
+        <div class="finding-location">${findingLink(f.file, f.startLine, f.endLine, `<code>${escapeHtml(formatFindingLocation(f))}</code>`)}<span class="finding-category">${escapeHtml(f.category)}</span></div>
+        <p>${inlineMarkdown(f.message)}</p>
+        ${f.suggestedFix ? `<div class="finding-fix-label">${vscode.l10n.t('Suggested fix')}</div><pre><code>${escapeHtml(f.suggestedFix)}</code></pre>` : ''}
+      </div>`).join('\n');
+    return `<div class="${SEVERITY_CLASSES[severity]}-section"><h2>${escapeHtml(severityHeading(severity))} (${findings.length})</h2></div>\n${cards}`;
+  });
+
+  return [
+    ...sections,
+    `<div class="neutral-section"><h2>${vscode.l10n.t('Summary')}</h2></div>`,
+    `<p>${inlineMarkdown(review.summary)}</p>`,
+  ].join('\n');
+}
+
 // --- Simple Markdown to HTML converter ---
 function markdownToHtml(md: string): string {
   const lines = md.split('\n');
@@ -429,7 +792,14 @@ function inlineMarkdown(text: string): string {
     .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
     .replace(/\*(.+?)\*/g, '<em>$1</em>')
     .replace(/`(.+?)`/g, '<code>$1</code>')
-    .replace(/\[(.+?)\]\((.+?)\)/g, '<a href="$2">$1</a>');
+    .replace(/\[(.+?)\]\((.+?)\)/g, '<a href="$2">$1</a>')
+    .replace(/<code>([\w./@-]+\.\w+):(\d+)(?:\s*[-~]\s*(\d+))?<\/code>/g, (code, file: string, start: string, end?: string) =>
+      findingLink(file, Number(start), Number(end ?? start), code));
+}
+
+/** クリックするとエディタで指摘箇所を開くリンク */
+function findingLink(file: string, startLine: number, endLine: number, label: string): string {
+  return `<a href="#" class="finding-link" data-file="${escapeHtml(file)}" data-start-line="${startLine}" data-end-line="${endLine}">${label}</a>`;
 }
 
 function escapeHtml(text: string): string {
@@ -441,9 +811,6 @@ function escapeHtml(text: string): string {
 }
 
 function getSectionClass(heading: string): string {
-  if (heading.includes('致命的')) { return 'fatal'; }
-  if (heading.includes('警告')) { return 'warning'; }
-  if (heading.includes('推奨')) { return 'recommend'; }
-  if (heading.includes('称賛')) { return 'praise'; }
-  return 'neutral';
+  const severity = severityFromHeading(heading);
+  return severity ? SEVERITY_CLASSES[severity] : 'neutral';
 }
@@ -0,0 +1,175 @@
+import * as vscode from 'vscode';
+import { FindingSeverity, ReviewFinding, formatFindingLocation, formatFixAsMarkdown } from '../review/reviewFindings';
+import { ReviewConversation } from '../review/reviewConversation';
+import { locateFindings } from './reviewDiagnostics';
+
+/**
+ * 指摘のスレッドの状態（open: 未解決 / resolved: 解決済み / falsePositive: 誤検知）。
+ * スレッドの contextValue にも設定し、package.json のメニューの出し分けに使う
+ */
+export type FindingThreadState = 'open' | 'resolved' | 'falsePositive';
+
+interface FindingThread {
+    finding: ReviewFinding;
+    thread: vscode.CommentThread;
+    state: FindingThreadState;
+}
+
+/**
+ * レビューの指摘をエディタのコメントスレッドとして表示する。
+ * スレッドごとに解決済み・誤検知を記録し（状態は表示中のレビューごとに持つ）、返信はレビューの会話で AI モデルに答えさせる
+ */
+export class ReviewThreads implements vscode.Disposable {
+    private readonly controller = vscode.comments.createCommentController('backlogReview.findings', 'Backlog AI Review');
+    private readonly stateEmitter = new vscode.EventEmitter<void>();
+    /** いずれかのスレッドの状態が変わったとき */
+    readonly onDidChangeState = this.stateEmitter.event;
+
+    private threads: FindingThread[] = [];
+    private conversation: ReviewConversation | undefined;
+    private modelName = '';
+    private replyCancellation: vscode.CancellationTokenSource | undefined;
+
+    /**
+     * 指摘ごとにスレッドを作り、それまでのスレッドを置き換える。ファイルが見つからない指摘、
+     * ワークスペースのファイルがレビューした時点の内容（fileContents）と異なる指摘と称賛はスレッドにしない
+     */
+    async show(
+        findings: ReviewFinding[],
+        rootUris: vscode.Uri[],
+        fileContents: Map<string, string>,
+        modelName: string,
+        conversation?: ReviewConversation
+    ): Promise<void> {
+        this.clear();
+        this.modelName = modelName;
+        this.conversation = conversation;
+
+        const { located } = await locateFindings(findings, rootUris, fileContents);
+        const threads: FindingThread[] = [];
+        for (const { finding, uri } of located) {
+            const thread = this.controller.createCommentThread(
+                uri,
+                new vscode.Range(finding.startLine - 1, 0, finding.endLine - 1, 0),
+                [this.createComment(formatFindingBody(finding), modelName)]
+            );
+            thread.canReply = true;
+            thread.collapsibleState = vscode.CommentThreadCollapsibleState.Collapsed;
+            threads.push({ finding, thread, state: 'open' });
+        }
+        this.threads = threads;
+        for (const entry of threads) {
+            this.applyState(entry);
+        }
+    }
+
+    clear(): void {
+        this.replyCancellation?.cancel();
+        for (const { thread } of this.threads) {
+            thread.dispose();
+        }
+        this.threads = [];
+        this.conversation = undefined;
+    }
+
+    /** 未解決のスレッドの指摘 */
+    unresolvedFindings(): ReviewFinding[] {
+        return this.threads.filter(t => t.state === 'open').map(t => t.finding);
+    }
+
+    /** 解決済み・誤検知として Backlog への投稿から除く指摘 */
+    excludedFindings(): ReviewFinding[] {
+        return this.threads.filter(t => t.state !== 'open').map(t => t.finding);
+    }
+
+    setState(thread: vscode.CommentThread, state: FindingThreadState): void {
+        const entry = this.threads.find(t => t.thread === thread);
+        if (!entry || entry.state === state) { return; }
+        entry.state = state;
+        this.applyState(entry);
+        this.stateEmitter.fire();
+    }
+
+    /**
+     * 返信をスレッドに追加し、レビューの会話があればその指摘についての質問として AI モデルの回答を続けて追加する
+     */
+    async reply(reply: vscode.CommentReply): Promise<void> {
+        const entry = this.threads.find(t => t.thread === reply.thread);
+        const text = reply.text.trim();
+        if (!entry || !text) { return; }
+
+        const { thread, finding } = entry;
+        thread.comments = [...thread.comments, this.createComment(text, vscode.l10n.t('You'))];
+        const conversation = this.conversation;
+        if (!conversation) { return; }
+
+        const pending = this.createComment(vscode.l10n.t('Thinking...'), this.modelName);
+        thread.comments = [...thread.comments, pending];
+
+        this.replyCancellation?.cancel();
+        const source = new vscode.CancellationTokenSource();
+        this.replyCancellation = source;
+        try {
+            const question = `次の指摘について質問します。\n\n指摘（${formatFindingLocation(finding)}）: ${finding.message}\n\n${text}`;
+            const answer = await conversation.ask(question, source.token);
+            pending.body = new vscode.MarkdownString(answer);
+        } catch (err) {
+            pending.body = err instanceof Error ? err.message : String(err);
+        } finally {
+            if (this.replyCancellation === source) { this.replyCancellation = undefined; }
+            source.dispose();
+        }
+        // 回答を待つ間にレビューが差し替えられた場合、スレッドは破棄済み
+        if (!this.threads.includes(entry)) { return; }
+        // コメントの内容を変えた場合は、配列を代入し直して表示を更新する
+        thread.comments = [...thread.comments];
+    }
+
+    dispose(): void {
+        this.clear();
+        this.stateEmitter.dispose();
+        this.controller.dispose();
+    }
+
+    private applyState({ thread, finding, state }: FindingThread): void {
+        thread.contextValue = state;
+        thread.state = state === 'open' ? vscode.CommentThreadState.Unresolved : vscode.CommentThreadState.Resolved;
+        const label = `${severityLabel(finding.severity)}${finding.category ? ` / ${finding.category}` : ''}`;
+        switch (state) {
+            case 'open':
+                thread.label = label;
+                break;
+            case 'resolved':
+                thread.label = `${label} (${vscode.l10n.t('Resolved')})`;
+                break;
+            case 'falsePositive':
+                thread.label = `${label} (${vscode.l10n.t('False positive')})`;
+                break;
+        }
+    }
+
+    private createComment(body: string | vscode.MarkdownString, author: string): vscode.Comment {
+        return {
+            body: typeof body === 'string' ? new vscode.MarkdownString(body) : body,
+            mode: vscode.CommentMode.Preview,
+            author: { name: author },
+        };
+    }
+}
+
+function formatFindingBody(finding: ReviewFinding): vscode.MarkdownString {
+    const body = new vscode.MarkdownString(finding.message);
+    if (finding.suggestedFix) {
+        body.appendMarkdown(`\n\n${vscode.l10n.t('Suggested fix')}:\n\n${formatFixAsMarkdown(finding.suggestedFix)}`);
+    }
+    return body;
+}
+
+function severityLabel(severity: FindingSeverity): string {
+    switch (severity) {
+        case 'critical': return vscode.l10n.t('Critical');
+        case 'warning': return vscode.l10n.t('Warning');
+        case 'recommend': return vscode.l10n.t('Recommended');
+        case 'praise': return vscode.l10n.t('Praise');
+    }
+}
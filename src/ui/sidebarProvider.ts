@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
 import { BacklogClient, BacklogPullRequest, BacklogRepository, BacklogIssue, BacklogIssueComment } from '../backlog/backlogClient';
 import { getConfig } from '../config';
+import { describeSelectedModel } from '../review/modelProvider';
+import { getReviewPreset } from '../review/reviewPresets';
 
 // ツリーアイテムの種別
 type TreeItemKind = 'project' | 'repository' | 'pullRequest' | 'message' | 'action' | 'selection';
@@ -40,10 +42,14 @@ export class BacklogTreeItem extends vscode.TreeItem {
                     this.iconPath = new vscode.ThemeIcon('git-branch');
                 } else if (commandId === 'backlogReview.clearSelection') {
                     this.iconPath = new vscode.ThemeIcon('clear-all');
+                } else if (commandId === 'backlogReview.startLocalReview') {
+                    this.iconPath = new vscode.ThemeIcon('git-commit');
                 } else if (commandId === 'backlogReview.startReview') {
                     this.iconPath = new vscode.ThemeIcon('git-pull-request');
                 } else if (commandId === 'backlogReview.selectModel') {
                     this.iconPath = new vscode.ThemeIcon('hubot');
+                } else if (commandId === 'backlogReview.selectPreset') {
+                    this.iconPath = new vscode.ThemeIcon('checklist');
                 } else {
                     this.iconPath = new vscode.ThemeIcon('run-all');
                 }
@@ -102,7 +108,7 @@ export class BacklogSidebarProvider implements vscode.TreeDataProvider<BacklogTr
         if (!cfg.spaceKey || !cfg.apiKey) {
             return [
                 new BacklogTreeItem(
-                    '⚙️ Backlogを設定してください',
+                    vscode.l10n.t('⚙️ Please configure Backlog'),
                     'message',
                     vscode.TreeItemCollapsibleState.None
                 ),
@@ -118,55 +124,69 @@ export class BacklogSidebarProvider implements vscode.TreeDataProvider<BacklogTr
                 // ルートレベル: 固定アクション + 現在の選択状況 + プロジェクト一覧
                 const items: BacklogTreeItem[] = [
                     new BacklogTreeItem(
-                        '選択をクリア',
+                        vscode.l10n.t('Clear selection'),
                         'action',
                         vscode.TreeItemCollapsibleState.None,
                         undefined, undefined, undefined, undefined,
                         'backlogReview.clearSelection'
                     ),
                     new BacklogTreeItem(
-                        `AIモデルを選択 (${cfg.copilotModel || '未選択'})`,
+                        vscode.l10n.t('Select AI model ({0})', describeSelectedModel(cfg)),
                         'action',
                         vscode.TreeItemCollapsibleState.None,
                         undefined, undefined, undefined, undefined,
                         'backlogReview.selectModel'
                     ),
                     new BacklogTreeItem(
-                        '課題を選択',
+                        vscode.l10n.t('Select review preset ({0})', getReviewPreset(cfg.reviewPreset).label),
+                        'action',
+                        vscode.TreeItemCollapsibleState.None,
+                        undefined, undefined, undefined, undefined,
+                        'backlogReview.selectPreset'
+                    ),
+                    new BacklogTreeItem(
+                        vscode.l10n.t('Select issue'),
                         'action',
                         vscode.TreeItemCollapsibleState.None,
                         undefined, undefined, undefined, undefined,
                         'backlogReview.startIssueReview'
                     ),
                     new BacklogTreeItem(
-                        '--- ブランチを指定してレビュー ---',
+                        vscode.l10n.t('--- Review branches ---'),
                         'action',
                         vscode.TreeItemCollapsibleState.None,
                         undefined, undefined, undefined, undefined,
                         'backlogReview.startBranchReview'
                     ),
+                    new BacklogTreeItem(
+                        vscode.l10n.t('--- Review local changes ---'),
+                        'action',
+                        vscode.TreeItemCollapsibleState.None,
+                        undefined, undefined, undefined, undefined,
+                        'backlogReview.startLocalReview'
+                    ),
                 ];
 
                 // 選択状態の表示
                 if (this.state.issue || this.state.branches) {
-                    items.push(new BacklogTreeItem('--- 選択中 ---', 'message', vscode.TreeItemCollapsibleState.None));
+                    items.push(new BacklogTreeItem(vscode.l10n.t('--- Selected ---'), 'message', vscode.TreeItemCollapsibleState.None));
                     if (this.state.issue) {
                         items.push(new BacklogTreeItem(
-                            `課題: [${this.state.issue.issue.issueKey}] ${this.state.issue.issue.summary}`,
+                            vscode.l10n.t('Issue: [{0}] {1}', this.state.issue.issue.issueKey, this.state.issue.issue.summary),
                             'selection',
                             vscode.TreeItemCollapsibleState.None
                         ));
                     }
                     if (this.state.branches) {
                         items.push(new BacklogTreeItem(
-                            `ブランチ: ${this.state.branches.baseBranch} ← ${this.state.branches.compareBranch}`,
+                            vscode.l10n.t('Branches: {0} ← {1}', this.state.branches.baseBranch, this.state.branches.compareBranch),
                             'selection',
                             vscode.TreeItemCollapsibleState.None
                         ));
                     }
                 }
 
-                items.push(new BacklogTreeItem('「プルリク」を指定してレビュー', 'message', vscode.TreeItemCollapsibleState.None));
+                items.push(new BacklogTreeItem(vscode.l10n.t('Review a pull request'), 'message', vscode.TreeItemCollapsibleState.None));
 
                 try {
                     const projects = await this.client.listProjects();
@@ -181,7 +201,7 @@ export class BacklogSidebarProvider implements vscode.TreeDataProvider<BacklogTr
                         ));
                     }
                 } catch (err) {
-                    items.push(new BacklogTreeItem(`⚠️ プロジェクト取得失敗: ${err}`, 'message', vscode.TreeItemCollapsibleState.None));
+                    items.push(new BacklogTreeItem(vscode.l10n.t('⚠️ Failed to load projects: {0}', String(err)), 'message', vscode.TreeItemCollapsibleState.None));
                 }
                 return items;
             }
@@ -189,7 +209,7 @@ export class BacklogSidebarProvider implements vscode.TreeDataProvider<BacklogTr
             if (element.kind === 'project' && element.projectKey) {
                 const repos = await this.client.listRepositories(element.projectKey);
                 if (repos.length === 0) {
-                    return [new BacklogTreeItem('Gitリポジトリなし', 'message', vscode.TreeItemCollapsibleState.None)];
+                    return [new BacklogTreeItem(vscode.l10n.t('No Git repositories'), 'message', vscode.TreeItemCollapsibleState.None)];
                 }
                 return repos.map(r =>
                     new BacklogTreeItem(
@@ -205,7 +225,7 @@ export class BacklogSidebarProvider implements vscode.TreeDataProvider<BacklogTr
             if (element.kind === 'repository' && element.projectKey && element.repoName) {
                 const prs = await this.client.listPullRequests(element.projectKey, element.repoName, 1);
                 if (prs.length === 0) {
-                    return [new BacklogTreeItem('オープンなPRなし', 'message', vscode.TreeItemCollapsibleState.None)];
+                    return [new BacklogTreeItem(vscode.l10n.t('No open pull requests'), 'message', vscode.TreeItemCollapsibleState.None)];
                 }
                 return prs.map(pr =>
                     new BacklogTreeItem(
@@ -221,7 +241,7 @@ export class BacklogSidebarProvider implements vscode.TreeDataProvider<BacklogTr
             }
         } catch (err) {
             const msg = err instanceof Error ? err.message : String(err);
-            return [new BacklogTreeItem(`エラー: ${msg}`, 'message', vscode.TreeItemCollapsibleState.None)];
+            return [new BacklogTreeItem(vscode.l10n.t('Error: {0}', msg), 'message', vscode.TreeItemCollapsibleState.None)];
         }
 
         return [];
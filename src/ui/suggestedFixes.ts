@@ -0,0 +1,97 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ReviewFinding, extractFixCode, formatFindingLocation } from '../review/reviewFindings';
+import { isReviewedContent } from './reviewDiagnostics';
+
+/** 修正案を当てた後の内容を差分プレビューの右側に表示するための URI スキーム */
+const PREVIEW_SCHEME = 'backlog-review-fix';
+
+/** 保持するプレビューの数（差分のタブを開いている間は内容を再び要求されることがあるため、閉じられるまで残す） */
+const MAX_PREVIEWS = 20;
+
+/** プレビューの修正後の内容（プレビューの URI ごと） */
+const previewContents = new Map<string, string>();
+let previewCount = 0;
+
+/** 修正案のプレビューに使うドキュメントの提供元を登録する。プレビューのドキュメントが閉じられたら内容を破棄する */
+export function registerSuggestedFixPreview(): vscode.Disposable {
+    return vscode.Disposable.from(
+        vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, {
+            provideTextDocumentContent: uri => previewContents.get(uri.toString()) ?? '',
+        }),
+        vscode.workspace.onDidCloseTextDocument(document => {
+            if (document.uri.scheme === PREVIEW_SCHEME) {
+                previewContents.delete(document.uri.toString());
+            }
+        })
+    );
+}
+
+function rememberPreview(uri: vscode.Uri, content: string): void {
+    previewContents.set(uri.toString(), content);
+    // 閉じられずに残ったものは古い順に破棄する
+    for (const key of previewContents.keys()) {
+        if (previewContents.size <= MAX_PREVIEWS) { break; }
+        previewContents.delete(key);
+    }
+}
+
+/**
+ * 修正案を当てた結果を差分で表示し、確認されたら WorkspaceEdit で適用する。
+ * ファイルの内容がレビューした時点（reviewedContent）から変わっている場合は、行番号がずれているおそれがあるため適用しない
+ */
+export async function previewSuggestedFix(
+    finding: ReviewFinding,
+    uri: vscode.Uri,
+    reviewedContent: string | undefined
+): Promise<void> {
+    if (!finding.suggestedFix) { return; }
+    const document = await vscode.workspace.openTextDocument(uri);
+    if (!isReviewedContent(document, reviewedContent) || finding.endLine > document.lineCount) {
+        vscode.window.showWarningMessage(vscode.l10n.t(
+            '{0} has changed since the review, so the suggested fix was not applied. Run the review again.', path.basename(uri.fsPath)
+        ));
+        return;
+    }
+
+    const range = new vscode.Range(
+        finding.startLine - 1, 0,
+        finding.endLine - 1, document.lineAt(finding.endLine - 1).text.length
+    );
+    const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+    const code = extractFixCode(finding.suggestedFix).replace(/\r?\n/g, eol);
+    const text = document.getText();
+    const proposed = text.slice(0, document.offsetAt(range.start)) + code + text.slice(document.offsetAt(range.end));
+
+    const previewUri = uri.with({ scheme: PREVIEW_SCHEME, query: String(++previewCount) });
+    rememberPreview(previewUri, proposed);
+    const version = document.version;
+    await vscode.commands.executeCommand(
+        'vscode.diff', uri, previewUri,
+        vscode.l10n.t('{0} ↔ Suggested fix', path.basename(uri.fsPath)),
+        { preview: true, selection: range }
+    );
+
+    const apply = vscode.l10n.t('Apply');
+    const choice = await vscode.window.showInformationMessage(
+        vscode.l10n.t('Apply the suggested fix for {0}?', formatFindingLocation(finding)),
+        apply
+    );
+    if (choice !== apply) { return; }
+
+    // プレビュー中に編集された場合も、確認した差分と異なる結果になるため適用しない
+    if (document.version !== version) {
+        vscode.window.showWarningMessage(vscode.l10n.t(
+            '{0} has changed since the review, so the suggested fix was not applied. Run the review again.', path.basename(uri.fsPath)
+        ));
+        return;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(uri, range, code);
+    if (await vscode.workspace.applyEdit(edit)) {
+        vscode.window.showInformationMessage(vscode.l10n.t('Applied the suggested fix to {0}.', formatFindingLocation(finding)));
+    } else {
+        vscode.window.showErrorMessage(vscode.l10n.t('Failed to apply the suggested fix to {0}.', formatFindingLocation(finding)));
+    }
+}